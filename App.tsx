@@ -1,194 +1,731 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GameState, P2PState } from './types';
+import React, { useState, useEffect, useRef, useCallback, useReducer } from 'react';
+import { GameState, P2PState, MessageLog, NegotiationOutcome, CommanderPersona, LiveConnectionState, ChatEntry, PeerMessage, GameEventMessage, MatchState, MatchPhase, CommanderMessage, CallEndReason, AudioDeviceSettings, ConnectionQuality, VisualizerStyle, VoiceEffect, ConversationSummary, Locale, CommanderInputMode, CampaignProgress, CampaignSector } from './types';
 import { LiveService } from './services/liveService';
-import { PeerService } from './services/peerService';
+import { createTokenProvider } from './services/liveTokenProvider';
+import { PeerService, MAX_FLEET_SIZE } from './services/peerService';
+import { loadPeerConfig, describeSignalingServer } from './services/peerConfig';
+import { MatchSession } from './services/matchSession';
+import { SessionRecorder } from './services/sessionRecorder';
+import { SessionArchive, ArchiveWriter } from './services/sessionArchive';
+import { ConversationAnalytics } from './services/conversationAnalytics';
+import { loadCampaign, saveCampaign, createCampaign, recordEncounter, recordRetreat, buildCampaignBriefing } from './services/campaign';
+import { sessionReducer, INITIAL_SESSION_STATE, getAiConnectionState, getP2PCall } from './services/sessionMachine';
 import { Visualizer } from './components/Visualizer';
+import { VisualizerStylePicker } from './components/VisualizerStylePicker';
+import { TranscriptPanel } from './components/TranscriptPanel';
+import { CommanderPortrait } from './components/CommanderPortrait';
+import { IceDiagnosticsPanel } from './components/IceDiagnosticsPanel';
+import { ChatPanel } from './components/ChatPanel';
+import { ParticipantTile } from './components/ParticipantTile';
+import { MatchPanel } from './components/MatchPanel';
+import { MatchResultView } from './components/MatchResultView';
+import { SessionArchiveScreen } from './components/SessionArchiveScreen';
+import { ConversationSummaryView } from './components/ConversationSummaryView';
+import { AudioSettingsPanel } from './components/AudioSettingsPanel';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { InputModePicker } from './components/InputModePicker';
+import { CommanderTextInput } from './components/CommanderTextInput';
+import { CampaignMapScreen } from './components/CampaignMapScreen';
+import { VoiceEffectPicker } from './components/VoiceEffectPicker';
+import { PERSONAS, DEFAULT_PERSONA, getPersona, localizePersona } from './data/personas';
+import { getMatchScenario, localizeScenario } from './data/matchScenarios';
+import { localizeSector } from './data/campaign';
+import { AudioDeviceLists, loadAudioSettings, saveAudioSettings, listAudioDevices, supportsOutputSelection } from './utils/audioDevices';
+import { SPEAKING_LEVEL } from './utils/audioUtils';
+import { getLocale, setLocale, t, MessageKey } from './i18n';
 
-const API_KEY = process.env.API_KEY || '';
+const LIVE_TOKEN_URL = process.env.LIVE_TOKEN_URL || '/api/live-token';
+const PEER_CONFIG = loadPeerConfig();
+const SESSION_ARCHIVE = new SessionArchive();
 
 // Generate a random 4-char ID for ease of use
 const generateId = () => Math.random().toString(36).substring(2, 6).toUpperCase();
+const pilotLabel = (peerId: string) => t('app.pilot', { id: peerId });
+const generateMessageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser time to start the download before releasing the URL
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Time to let the commander finish announcing the decision before closing the session
+const OUTCOME_DELAY_MS = 4000;
+// Keeps the data channel open long enough for the final match event to reach the other pilot
+const MATCH_END_DELAY_MS = 1500;
+
+// Shown when a call ends, with the pilot's label; null means nothing to report
+const CALL_END_MESSAGES: Record<CallEndReason, MessageKey | null> = {
+  'local-hangup': null,
+  'declined': null,
+  'remote-hangup': 'callEnd.remoteHangup',
+  'rejected': 'callEnd.rejected',
+  'busy': 'callEnd.busy',
+  'no-answer': 'callEnd.noAnswer',
+  'cancelled': 'callEnd.cancelled',
+  'unavailable': 'callEnd.unavailable',
+  'connection-lost': 'callEnd.connectionLost',
+  'failed': 'callEnd.failed',
+};
+
+interface FleetParticipant {
+  id: string;
+  stream: MediaStream;
+}
 
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>(GameState.MENU);
-  const [isBusy, setIsBusy] = useState(false); // Prevents double clicks
+  // Screen, call phase, AI connection, pending action and error
+  const [session, dispatch] = useReducer(sessionReducer, INITIAL_SESSION_STATE);
+  const gameState = session.screen;
+  const isBusy = session.pending !== null; // Prevents double clicks
   
   // AI State
-  const [isAiConnected, setIsAiConnected] = useState(false);
+  const aiConnectionState = getAiConnectionState(session);
+  const isAiConnected = aiConnectionState === LiveConnectionState.CONNECTED;
+  const [persona, setPersona] = useState<CommanderPersona>(DEFAULT_PERSONA);
+  const [transcript, setTranscript] = useState<MessageLog[]>([]);
+  const [outcome, setOutcome] = useState<NegotiationOutcome | null>(null);
+  // Push-to-talk is chosen before the session starts (it changes the Live config)
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  // Typed messages as an alternative (or fallback) to the microphone
+  const [inputMode, setInputMode] = useState<CommanderInputMode>('mixed');
+  const [textReplies, setTextReplies] = useState(false);
+  // Mixed mode lost its microphone at connect time: only the text box works
+  const [micUnavailable, setMicUnavailable] = useState(false);
+  const hasMicInput = inputMode !== 'text' && !micUnavailable;
   const liveServiceRef = useRef<LiveService | null>(null);
+  // Every AI session is archived for the replay screen
+  const archiveWriterRef = useRef<ArchiveWriter | null>(null);
+  const outcomeTimeoutRef = useRef<number | null>(null);
 
   // P2P State
-  const [p2pState, setP2PState] = useState<P2PState>(P2PState.DISCONNECTED);
+  const p2pCall = getP2PCall(session);
+  const p2pState = p2pCall?.phase ?? null;
   const [myId] = useState(generateId());
   const [targetId, setTargetId] = useState('');
-  const [incomingCallerId, setIncomingCallerId] = useState<string | null>(null);
+  // Persona as shown to the player, in the UI language
+  const shownPersona = localizePersona(persona);
+  const incomingCallerId = p2pCall?.phase === P2PState.RINGING
+    ? p2pCall.peerId
+    : p2pCall?.phase === P2PState.IN_CALL ? p2pCall.incomingPeerId ?? null : null;
   const peerServiceRef = useRef<PeerService | null>(null);
-  const remoteAudioRef = useRef<HTMLAudioElement>(null);
+  const [participants, setParticipants] = useState<FleetParticipant[]>([]);
+  // Remote pilots currently above SPEAKING_LEVEL
+  const [speakingPeers, setSpeakingPeers] = useState<string[]>([]);
+  const [chatEntries, setChatEntries] = useState<ChatEntry[]>([]);
+  const [openDataChannels, setOpenDataChannels] = useState<string[]>([]);
+  const [typingPeers, setTypingPeers] = useState<string[]>([]);
+  const [connectionQuality, setConnectionQuality] = useState<Record<string, ConnectionQuality>>({});
+  // Disguise for our voice on the fleet channel, and whether we hear it ourselves
+  const [voiceEffect, setVoiceEffect] = useState<VoiceEffect>('none');
+  const [voiceMonitor, setVoiceMonitor] = useState(false);
+  const matchSessionRef = useRef<MatchSession | null>(null);
+  const [matchState, setMatchState] = useState<MatchState | null>(null);
+  // Resolved match shown on the GAME_OVER screen
+  const [matchSummary, setMatchSummary] = useState<MatchState | null>(null);
+  // Pilot whose LiveService brings the AI commander into the fleet channel
+  const [commanderHostId, setCommanderHostId] = useState<string | null>(null);
+
+  // Recording (opt-in)
+  const [recordSession, setRecordSession] = useState(false);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Stopped recording offered for export on GAME_OVER
+  const [finishedRecording, setFinishedRecording] = useState<SessionRecorder | null>(null);
+
+  // Conversation analytics of the current session, summarized on GAME_OVER
+  const analyticsRef = useRef<ConversationAnalytics | null>(null);
+  const [conversationSummary, setConversationSummary] = useState<ConversationSummary | null>(null);
+
+  // Audio devices (persisted across visits)
+  const [audioSettings, setAudioSettings] = useState<AudioDeviceSettings>(loadAudioSettings);
+  const [audioDevices, setAudioDevices] = useState<AudioDeviceLists>({ inputs: [], outputs: [] });
+  // Service callbacks outlive renders, so they read the settings from here
+  const audioSettingsRef = useRef(audioSettings);
 
   // Shared State
-  const [error, setError] = useState<string | null>(null);
-  const [volumes, setVolumes] = useState({ input: 0, output: 0 });
+  const error = session.error;
+  // Only flips when the commander starts or stops talking; the visualizers
+  // read the analysers themselves
+  const [commanderSpeaking, setCommanderSpeaking] = useState(false);
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('bars');
+  // Mirrors the i18n module's locale so that changing it re-renders the UI
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+
+  // Campaign progress, kept across visits; campaignSector is the sector of the
+  // current (or last) AI session, null for a free game
+  const [campaign, setCampaign] = useState<CampaignProgress>(loadCampaign);
+  const [campaignSector, setCampaignSector] = useState<CampaignSector | null>(null);
+  // What the pilot said during the campaign session, remembered by later commanders
+  const campaignLinesRef = useRef<string[]>([]);
+  // Sector of the running campaign session until its encounter is recorded
+  const unrecordedSectorRef = useRef<CampaignSector | null>(null);
+
+  useEffect(() => {
+    saveCampaign(campaign);
+  }, [campaign]);
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
+  };
+
+  // --- AUDIO DEVICES ---
+  const refreshAudioDevices = useCallback(async () => {
+    try {
+      const lists = await listAudioDevices();
+      setAudioDevices(lists);
+      return lists;
+    } catch (e) {
+      console.warn("Could not list audio devices", e);
+      return null;
+    }
+  }, []);
+
+  const updateAudioSettings = async (next: AudioDeviceSettings) => {
+    audioSettingsRef.current = next;
+    setAudioSettings(next);
+    saveAudioSettings(next);
+    try {
+      // In P2P the PeerService owns the microphone and hands a new one to the
+      // commander through onLocalStreamChange
+      await peerServiceRef.current?.applyAudioSettings(next);
+      await liveServiceRef.current?.applyAudioSettings(next);
+    } catch (e: any) {
+      dispatch({ kind: 'error', message: t('errors.audioDevice', { message: e.message }) });
+    }
+  };
   
   // --- AI HANDLERS ---
-  const startAiGame = async () => {
+  const startAiGame = async (selected: CommanderPersona, sector: CampaignSector | null = null) => {
     if (isBusy) return;
-    if (!API_KEY) {
-      setError("Chave de API não encontrada (process.env.API_KEY).");
-      return;
-    }
     
-    setIsBusy(true);
-    setError(null);
-    setGameState(GameState.PLAYING_AI);
+    dispatch({ kind: 'ai-start' });
+    setCampaignSector(sector);
+    campaignLinesRef.current = [];
+    unrecordedSectorRef.current = sector;
+    setTranscript([]);
+    setOutcome(null);
+    setMatchSummary(null);
+    setPersona(selected);
+    setIsTalking(false);
+    setIsMuted(false);
+    setMicUnavailable(false);
+    setCommanderSpeaking(false);
+    // The recording, archive and analytics label the commander in the current language
+    const shown = localizePersona(selected);
+    startRecording('ai')?.setPersona(shown);
+    startAnalytics('ai');
+    archiveWriterRef.current?.finish();
+    archiveWriterRef.current = SESSION_ARCHIVE.createWriter(shown);
     
     try {
-      liveServiceRef.current = new LiveService(API_KEY);
+      liveServiceRef.current = new LiveService(createTokenProvider(LIVE_TOKEN_URL), shown, {
+        localSpeakerLabel: t('ai.localSpeaker'),
+        recorder: recorderRef.current ?? undefined,
+        archive: archiveWriterRef.current,
+        audioSettings,
+        pushToTalk: pushToTalk && inputMode !== 'text',
+        locale,
+        inputMode,
+        replyMode: textReplies ? 'text' : 'audio',
+        analytics: analyticsRef.current ?? undefined,
+        campaignBriefing: sector ? buildCampaignBriefing(campaign, sector) : undefined,
+      });
       await liveServiceRef.current.connect({
-        onConnect: () => setIsAiConnected(true),
-        onDisconnect: () => setIsAiConnected(false),
-        onError: (err) => {
-          setError(err.message);
-          setIsAiConnected(false);
+        onStateChange: (state) => dispatch({ kind: 'ai-state', state }),
+        onDisconnect: () => dispatch({ kind: 'ai-state', state: LiveConnectionState.DISCONNECTED }),
+        onError: (err) => dispatch({ kind: 'ai-error', message: err.message }),
+        onMicrophoneUnavailable: () => setMicUnavailable(true),
+        onVolumeChange: (_input, output) => setCommanderSpeaking(output > SPEAKING_LEVEL),
+        onTranscript: (entry) => {
+          setTranscript(prev => [...prev, entry]);
+          recorderRef.current?.addTranscript(entry);
+          archiveWriterRef.current?.addTranscript(entry);
+          if (entry.sender === 'user') campaignLinesRef.current.push(entry.text);
         },
-        onVolumeChange: (input, output) => {
-          setVolumes({ input, output });
+        onOutcome: (result) => {
+          setOutcome(result);
+          if (sector && unrecordedSectorRef.current === sector) {
+            unrecordedSectorRef.current = null;
+            setCampaign(prev => recordEncounter(prev, sector, result, campaignLinesRef.current));
+          }
+          recorderRef.current?.setOutcome(result);
+          archiveWriterRef.current?.setOutcome(result);
+          if (outcomeTimeoutRef.current) clearTimeout(outcomeTimeoutRef.current);
+          outcomeTimeoutRef.current = window.setTimeout(() => stopAiGame(), OUTCOME_DELAY_MS);
         }
       });
+      dispatch({ kind: 'action-done' });
     } catch (e: any) {
-      setError("Erro ao conectar IA: " + e.message);
-    } finally {
-      setIsBusy(false);
+      // The negotiation never started, so the sector stays as it was
+      unrecordedSectorRef.current = null;
+      dispatch({ kind: 'action-failed', message: t('errors.aiConnect', { message: e.message }) });
     }
   };
 
   const stopAiGame = useCallback(() => {
+    if (outcomeTimeoutRef.current) {
+      clearTimeout(outcomeTimeoutRef.current);
+      outcomeTimeoutRef.current = null;
+    }
+    // Leaving before the commander decides loses the sector
+    const sector = unrecordedSectorRef.current;
+    if (sector) {
+      unrecordedSectorRef.current = null;
+      const lines = campaignLinesRef.current;
+      setCampaign(prev => recordRetreat(prev, sector, lines));
+    }
+    stopRecording();
+    stopAnalytics();
     if (liveServiceRef.current) {
       liveServiceRef.current.disconnect();
       liveServiceRef.current = null;
     }
-    setIsAiConnected(false);
-    setGameState(GameState.GAME_OVER);
+    if (archiveWriterRef.current) {
+      archiveWriterRef.current.finish();
+      archiveWriterRef.current = null;
+    }
+    dispatch({ kind: 'ai-stop' });
   }, []);
 
+  // --- RECORDING ---
+  const startRecording = (mode: 'ai' | 'p2p'): SessionRecorder | null => {
+    recorderRef.current?.stop();
+    recorderRef.current = recordSession ? new SessionRecorder(mode) : null;
+    setFinishedRecording(null);
+    return recorderRef.current;
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    recorder.stop();
+    setFinishedRecording(recorder.hasAudio ? recorder : null);
+  };
+
+  const exportRecording = () => {
+    if (!finishedRecording) return;
+    const manifest = finishedRecording.toManifest();
+    const baseName = `sessao-${manifest.startedAt.replace(/[:.]/g, '-')}`;
+    downloadBlob(finishedRecording.toWav(), `${baseName}.wav`);
+    downloadBlob(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+  };
+
+  const startAnalytics = (mode: ConversationSummary['mode']): ConversationAnalytics => {
+    analyticsRef.current?.stop();
+    analyticsRef.current = new ConversationAnalytics(mode);
+    setConversationSummary(null);
+    return analyticsRef.current;
+  };
+
+  const stopAnalytics = () => {
+    const analytics = analyticsRef.current;
+    if (!analytics) return;
+    analyticsRef.current = null;
+    analytics.stop();
+    setConversationSummary(analytics.toSummary());
+  };
+
+  const exportAnalytics = () => {
+    if (!conversationSummary) return;
+    const filename = `analise-${conversationSummary.startedAt.replace(/[:.]/g, '-')}.json`;
+    downloadBlob(new Blob([JSON.stringify(conversationSummary, null, 2)], { type: 'application/json' }), filename);
+  };
+
+  const setTalking = useCallback((talking: boolean) => {
+    if (talking) liveServiceRef.current?.startTalking();
+    else liveServiceRef.current?.stopTalking();
+    setIsTalking(talking);
+  }, []);
+
+  const toggleMute = () => {
+    liveServiceRef.current?.setMuted(!isMuted);
+    setIsMuted(!isMuted);
+  };
+
+  // Spacebar is the talk key while a push-to-talk session is on screen
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING_AI || !pushToTalk || !hasMicInput) return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      setTalking(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setTalking(false);
+    };
+    // Releasing the key in another window must not leave the turn open
+    const handleBlur = () => setTalking(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [gameState, pushToTalk, hasMicInput, setTalking]);
+
   // --- P2P HANDLERS ---
   const initP2P = async () => {
     if (isBusy) return;
-    setIsBusy(true);
-    setGameState(GameState.PLAYING_P2P);
-    setP2PState(P2PState.WAITING);
-    setError(null);
+    dispatch({ kind: 'p2p-start' });
+    setOutcome(null);
+    setMatchSummary(null);
+    setCampaignSector(null);
 
     try {
-      peerServiceRef.current = new PeerService();
+      peerServiceRef.current = new PeerService(PEER_CONFIG);
+      peerServiceRef.current.setVoiceEffect(voiceEffect);
+      peerServiceRef.current.setVoiceMonitor(voiceMonitor);
+      peerServiceRef.current.setRecorder(startRecording('p2p'));
+      peerServiceRef.current.setAnalytics(startAnalytics('p2p'));
+      analyticsRef.current?.addSpeaker(myId, pilotLabel(myId));
+      matchSessionRef.current = new MatchSession(
+        myId,
+        (message) => peerServiceRef.current?.sendMessage(message) ?? false,
+        setMatchState
+      );
       await peerServiceRef.current.init(myId, {
-        onIncomingCall: (callerId) => {
-          setIncomingCallerId(callerId);
-          setP2PState(P2PState.CALLING); // Receiving call state
+        onIncomingCall: (callerId) => dispatch({ kind: 'incoming-call', peerId: callerId }),
+        onParticipantJoined: (peerId, stream) => {
+          console.log("Recebendo stream remoto", peerId, stream);
+          setParticipants(prev => [...prev.filter(p => p.id !== peerId), { id: peerId, stream }]);
+          liveServiceRef.current?.addSpeaker(peerId, pilotLabel(peerId), stream);
+          analyticsRef.current?.addSpeaker(peerId, pilotLabel(peerId));
+          dispatch({ kind: 'participant-joined', peerId });
+          startP2PVolumeMonitoring();
         },
-        onStream: (stream) => {
-          handleRemoteStream(stream);
+        onParticipantLeft: (peerId) => {
+          setParticipants(prev => prev.filter(p => p.id !== peerId));
+          setTypingPeers(prev => prev.filter(id => id !== peerId));
+          setConnectionQuality(({ [peerId]: _left, ...rest }) => rest);
+          liveServiceRef.current?.removeSpeaker(peerId);
+          setCommanderHostId(prev => prev === peerId ? null : prev);
+          // The opponent left mid-match: nothing left to negotiate
+          const match = matchSessionRef.current?.getState();
+          if (match && match.phase !== MatchPhase.RESOLVED && match.roles[peerId]) {
+            matchSessionRef.current?.reset();
+          }
         },
-        onClose: () => {
-          setP2PState(P2PState.WAITING);
-          setIncomingCallerId(null);
-          setVolumes({ input: 0, output: 0 });
+        onClose: handleCallEnd,
+        onCallEnded: (peerId, reason) => {
+          const message = CALL_END_MESSAGES[reason];
+          dispatch({
+            kind: 'call-ended',
+            peerId,
+            message: message ? t(message, { pilot: pilotLabel(peerId) }) : null,
+            remaining: peerServiceRef.current?.getParticipantIds().length ?? 0,
+          });
+        },
+        onError: (message) => dispatch({ kind: 'error', message }),
+        onLocalStreamChange: (stream) => {
+          liveServiceRef.current?.applyAudioSettings(audioSettingsRef.current, stream);
+        },
+        onMessage: handlePeerMessage,
+        onConnectionQuality: (peerId, quality) => setConnectionQuality(prev => ({ ...prev, [peerId]: quality })),
+        onDataChannelChange: (peerId, isOpen) => {
+          setOpenDataChannels(prev => isOpen ? [...prev.filter(id => id !== peerId), peerId] : prev.filter(id => id !== peerId));
+          if (!isOpen) setTypingPeers(prev => prev.filter(id => id !== peerId));
+          // Pilots who join later must learn that we host the commander
+          if (isOpen && liveServiceRef.current) {
+            peerServiceRef.current?.sendMessage({ type: 'commander', status: 'joined', personaId: liveServiceRef.current.getPersonaId() });
+          }
         }
       });
 
       // Start local mic immediately for volume feedback/readiness
+      await peerServiceRef.current.applyAudioSettings(audioSettings);
       await peerServiceRef.current.startLocalStream();
+      dispatch({ kind: 'action-done' });
     } catch (e: any) {
-      setError("Erro ao iniciar P2P: " + e.message);
-      setGameState(GameState.MENU);
-    } finally {
-      setIsBusy(false);
+      dispatch({ kind: 'action-failed', message: t('errors.p2pStart', { message: e.message }) });
     }
   };
 
+  const changeVoiceEffect = (effect: VoiceEffect) => {
+    setVoiceEffect(effect);
+    peerServiceRef.current?.setVoiceEffect(effect);
+  };
+
+  const changeVoiceMonitor = (enabled: boolean) => {
+    setVoiceMonitor(enabled);
+    peerServiceRef.current?.setVoiceMonitor(enabled);
+  };
+
   const callPeer = async () => {
     if (!targetId || !peerServiceRef.current || isBusy) return;
-    setIsBusy(true);
-    setP2PState(P2PState.CALLING);
-    setError(null);
+    const remoteId = targetId.toUpperCase();
+    const isInvite = p2pState === P2PState.IN_CALL;
+    dispatch({ kind: 'dial', peerId: remoteId });
     
     try {
-      await peerServiceRef.current.makeCall(targetId.toUpperCase(), {
-        onStream: (stream) => handleRemoteStream(stream),
-        onClose: handleCallEnd
-      });
-      startP2PVolumeMonitoring();
+      await peerServiceRef.current.makeCall(remoteId);
+      if (isInvite) setTargetId('');
+      dispatch({ kind: 'action-done' });
     } catch (e: any) {
-      setError("Falha na chamada: " + e.message);
-      setP2PState(P2PState.WAITING);
-    } finally {
-      setIsBusy(false);
+      dispatch({ kind: 'action-failed', message: t('errors.callFailed', { message: e.message }) });
     }
   };
 
   const answerPeer = async () => {
-    if (!peerServiceRef.current || isBusy) return;
+    if (!peerServiceRef.current || !incomingCallerId || isBusy) return;
     
-    setIsBusy(true);
+    dispatch({ kind: 'answer' });
     try {
-      await peerServiceRef.current.answerCall({
-        onStream: (stream) => handleRemoteStream(stream),
-        onClose: handleCallEnd
-      });
-      
-      setIncomingCallerId(null);
-      startP2PVolumeMonitoring();
+      await peerServiceRef.current.answerCall(incomingCallerId);
+      dispatch({ kind: 'action-done' });
     } catch (e: any) {
-      setError("Erro ao atender: " + e.message);
-      // Don't reset P2PState immediately so user sees error, 
-      // but if call failed, peerService likely triggers close anyway.
-    } finally {
-      setIsBusy(false);
+      // The call stays ringing so the user sees the error; if it failed,
+      // peerService reports the end of the call anyway.
+      dispatch({ kind: 'action-failed', message: t('errors.answer', { message: e.message }) });
     }
   };
 
-  const handleRemoteStream = (stream: MediaStream) => {
-    console.log("Recebendo stream remoto", stream);
-    if (remoteAudioRef.current) {
-      remoteAudioRef.current.srcObject = stream;
-      // Explicit play attempt
-      const playPromise = remoteAudioRef.current.play();
-      if (playPromise !== undefined) {
-        playPromise.catch(error => {
-          console.error("Auto-play prevented:", error);
-          setError("Clique na página para ouvir o áudio.");
-        });
-      }
-    }
-    setP2PState(P2PState.IN_CALL);
+  const rejectPeer = () => {
+    if (!peerServiceRef.current || !incomingCallerId) return;
+    peerServiceRef.current.rejectCall(incomingCallerId);
+  };
+
+  const cancelCall = () => {
+    if (!peerServiceRef.current || p2pCall?.phase !== P2PState.DIALING) return;
+    peerServiceRef.current.hangUp(p2pCall.peerId);
   };
 
   const handleCallEnd = () => {
-    setP2PState(P2PState.WAITING);
-    setVolumes({ input: 0, output: 0 });
+    matchSessionRef.current?.reset();
+    dismissCommander();
+    dispatch({ kind: 'calls-closed' });
+    setParticipants([]);
+    setChatEntries([]);
+    setTypingPeers([]);
+    setSpeakingPeers([]);
+    setConnectionQuality({});
   };
 
   const startP2PVolumeMonitoring = () => {
-    peerServiceRef.current?.startVolumeMonitoring((input, output) => {
-      setVolumes({ input, output });
+    peerServiceRef.current?.startVolumeMonitoring((_input, remotes) => {
+      const speaking = Object.keys(remotes).filter(id => remotes[id] > SPEAKING_LEVEL);
+      // Same pilots as before: keep the old array so React skips the render
+      setSpeakingPeers(prev => prev.length === speaking.length && speaking.every(id => prev.includes(id)) ? prev : speaking);
     });
   };
 
-  const stopP2P = () => {
+  const handlePeerMessage = (message: PeerMessage, fromId: string) => {
+    if (matchSessionRef.current?.handleMessage(message, fromId)) return;
+    if (message.type === 'commander') {
+      handleCommanderMessage(message, fromId);
+      return;
+    }
+    if (message.type === 'roster' || message.type === 'announce' || message.type === 'call-signal' || message.type === 'match-intent' || message.type === 'match-sync') return;
+    if (message.type === 'typing') {
+      setTypingPeers(prev => message.isTyping ? [...prev.filter(id => id !== fromId), fromId] : prev.filter(id => id !== fromId));
+      return;
+    }
+    if (message.type === 'chat') setTypingPeers(prev => prev.filter(id => id !== fromId));
+    setChatEntries(prev => [...prev, { from: 'remote', peerId: fromId, message }]);
+  };
+
+  const sendPeerMessage = (message: PeerMessage) => {
+    if (!peerServiceRef.current?.sendMessage(message)) {
+      dispatch({ kind: 'error', message: t('errors.dataChannel') });
+      return;
+    }
+    if (message.type === 'chat' || message.type === 'game-event') {
+      setChatEntries(prev => [...prev, { from: 'local', message }]);
+    }
+  };
+
+  const sendChat = (text: string) => {
+    sendPeerMessage({ type: 'chat', id: generateMessageId(), text, sentAt: Date.now() });
+  };
+
+  const sendOffer = (terms: string) => {
+    sendPeerMessage({ type: 'game-event', id: generateMessageId(), kind: 'offer', terms, sentAt: Date.now() });
+  };
+
+  const respondToOffer = (offerId: string, accept: boolean) => {
+    const offer = chatEntries.find(e => e.message.id === offerId)?.message as GameEventMessage | undefined;
+    sendPeerMessage({
+      type: 'game-event',
+      id: generateMessageId(),
+      kind: accept ? 'accept' : 'reject',
+      offerId,
+      terms: offer?.terms,
+      sentAt: Date.now(),
+    });
+  };
+
+  const startMatch = () => {
+    if (participants.length !== 1) return;
+    matchSessionRef.current?.start(participants[0].id);
+  };
+
+  // --- AI COMMANDER IN THE FLEET CHANNEL ---
+  // One pilot hosts the Live session: the fleet's voices are mixed into its
+  // input and its voice is mixed into that pilot's outgoing call audio.
+  const summonCommander = async () => {
+    const peerService = peerServiceRef.current;
+    if (!peerService || isBusy || commanderHostId) return;
+
+    dispatch({ kind: 'summon' });
+    setTranscript([]);
+    setOutcome(null);
+
+    try {
+      const mic = await peerService.startLocalStream();
+      const service = new LiveService(createTokenProvider(LIVE_TOKEN_URL), shownPersona, {
+        inputStream: mic,
+        localSpeakerLabel: pilotLabel(myId),
+        localSpeakerId: myId,
+        sharedChannel: true,
+        analytics: analyticsRef.current ?? undefined,
+        audioSettings,
+        locale,
+      });
+      liveServiceRef.current = service;
+      setCommanderHostId(myId);
+      recorderRef.current?.setPersona(shownPersona);
+
+      await service.connect({
+        onStateChange: (state) => dispatch({ kind: 'ai-state', state }),
+        onDisconnect: () => dismissCommander(),
+        onError: (err) => dispatch({ kind: 'ai-error', message: err.message }),
+        onVolumeChange: (_input, output) => setCommanderSpeaking(output > SPEAKING_LEVEL),
+        onTranscript: (entry) => {
+          setTranscript(prev => [...prev, entry]);
+          recorderRef.current?.addTranscript(entry);
+        },
+        onOutcome: (result) => {
+          peerServiceRef.current?.sendMessage({ type: 'commander', status: 'outcome', personaId: persona.id, outcome: result });
+          handleCommanderOutcome(result);
+        }
+      });
+
+      // connect() reports its own failures through onError
+      const commanderAudio = service.getOutputStream();
+      dispatch({ kind: 'action-done' });
+      if (liveServiceRef.current !== service || !commanderAudio) return;
+
+      peerService.getParticipantIds().forEach(id => {
+        const stream = peerService.getRemoteStream(id);
+        if (stream) service.addSpeaker(id, pilotLabel(id), stream);
+      });
+      peerService.setSharedAudio(commanderAudio);
+      peerService.sendMessage({ type: 'commander', status: 'joined', personaId: persona.id });
+    } catch (e: any) {
+      dispatch({ kind: 'action-failed', message: t('errors.summonCommander', { message: e.message }) });
+      dismissCommander();
+    }
+  };
+
+  const dismissCommander = () => {
+    const service = liveServiceRef.current;
+    if (service) {
+      liveServiceRef.current = null;
+      service.disconnect();
+      try {
+        peerServiceRef.current?.setSharedAudio(null);
+      } catch (e) {
+        console.warn("Could not restore microphone audio:", e);
+      }
+      peerServiceRef.current?.sendMessage({ type: 'commander', status: 'left', personaId: service.getPersonaId() });
+      setCommanderHostId(prev => prev === myId ? null : prev);
+    }
+    dispatch({ kind: 'commander-dismissed' });
+    setCommanderSpeaking(false);
+  };
+
+  const handleCommanderMessage = (message: CommanderMessage, fromId: string) => {
+    if (message.status === 'joined') {
+      setPersona(getPersona(message.personaId));
+      recorderRef.current?.setPersona(localizePersona(getPersona(message.personaId)));
+      setCommanderHostId(fromId);
+    } else if (message.status === 'left') {
+      setCommanderHostId(prev => prev === fromId ? null : prev);
+    } else if (message.outcome) {
+      handleCommanderOutcome(message.outcome);
+    }
+  };
+
+  // The commander's decision ends the call for the whole fleet
+  const handleCommanderOutcome = (result: NegotiationOutcome) => {
+    setOutcome(result);
+    recorderRef.current?.setOutcome(result);
+    if (outcomeTimeoutRef.current) clearTimeout(outcomeTimeoutRef.current);
+    outcomeTimeoutRef.current = window.setTimeout(() => stopP2P(GameState.GAME_OVER), OUTCOME_DELAY_MS);
+  };
+
+  const stopP2P = (nextState: GameState.MENU | GameState.GAME_OVER = GameState.MENU) => {
+    if (outcomeTimeoutRef.current) {
+      clearTimeout(outcomeTimeoutRef.current);
+      outcomeTimeoutRef.current = null;
+    }
+    stopRecording();
+    stopAnalytics();
+    dismissCommander();
+    setCommanderHostId(null);
+    matchSessionRef.current?.reset();
+    matchSessionRef.current = null;
     if (peerServiceRef.current) {
       peerServiceRef.current.destroy();
       peerServiceRef.current = null;
     }
-    if (remoteAudioRef.current) {
-      remoteAudioRef.current.srcObject = null;
-    }
-    setP2PState(P2PState.DISCONNECTED);
-    setGameState(GameState.MENU);
+    setParticipants([]);
+    setSpeakingPeers([]);
+    setConnectionQuality({});
+    setChatEntries([]);
+    setOpenDataChannels([]);
+    setTypingPeers([]);
+    dispatch({ kind: 'p2p-stop', next: nextState });
   };
 
+  // A resolved match ends the P2P session and reveals both briefings on GAME_OVER
+  useEffect(() => {
+    if (matchState?.phase !== MatchPhase.RESOLVED) return;
+    setMatchSummary(matchState);
+    const timeout = window.setTimeout(() => stopP2P(GameState.GAME_OVER), MATCH_END_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [matchState]);
+
+  // A device that disappears (unplugged headset) falls back to the system default
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    const handleDeviceChange = async () => {
+      const lists = await refreshAudioDevices();
+      if (!lists) return;
+      const current = audioSettingsRef.current;
+      const inputGone = current.inputDeviceId && !lists.inputs.some(d => d.deviceId === current.inputDeviceId);
+      const outputGone = current.outputDeviceId && !lists.outputs.some(d => d.deviceId === current.outputDeviceId);
+      if (inputGone || outputGone) {
+        updateAudioSettings({
+          ...current,
+          inputDeviceId: inputGone ? null : current.inputDeviceId,
+          outputDeviceId: outputGone ? null : current.outputDeviceId,
+        });
+      }
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, []);
+
   // Cleanup
   useEffect(() => {
     return () => {
+      if (outcomeTimeoutRef.current) clearTimeout(outcomeTimeoutRef.current);
+      recorderRef.current?.stop();
+      archiveWriterRef.current?.finish();
       if (liveServiceRef.current) liveServiceRef.current.disconnect();
       if (peerServiceRef.current) peerServiceRef.current.destroy();
     };
@@ -198,9 +735,7 @@ export default function App() {
     <div className="min-h-screen w-full flex flex-col items-center justify-center p-4 relative overflow-hidden stars">
       <div className="absolute inset-0 bg-gradient-to-b from-transparent via-purple-900/20 to-black pointer-events-none" />
       <div className="absolute inset-0 scanline opacity-20 pointer-events-none" />
-      
-      {/* Audio element for P2P - Important: autoPlay */}
-      <audio ref={remoteAudioRef} autoPlay className="hidden" />
+
 
       {/* Main Container */}
       <div className="relative z-10 w-full max-w-2xl bg-slate-900/90 backdrop-blur-md border border-slate-700 rounded-2xl shadow-2xl overflow-hidden flex flex-col">
@@ -208,13 +743,13 @@ export default function App() {
         {/* Header */}
         <div className="p-6 border-b border-slate-700 bg-slate-800/50 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-400 tracking-wider">
-            COMUNICADOR UNIVERSAL
+            {t('app.title')}
           </h1>
           <div className="flex items-center gap-2">
             <span className="text-xs font-mono text-slate-400">
-              {gameState === GameState.PLAYING_AI ? 'MODO: IA' : gameState === GameState.PLAYING_P2P ? 'MODO: HUMANO' : 'OFFLINE'}
+              {gameState === GameState.PLAYING_AI ? t('app.modeAi') : gameState === GameState.PLAYING_P2P ? t('app.modeP2p') : t('app.offline')}
             </span>
-            <div className={`w-3 h-3 rounded-full ${isAiConnected || p2pState === P2PState.IN_CALL ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : 'bg-red-500'}`} />
+            <div className={`w-3 h-3 rounded-full ${isAiConnected || p2pState === P2PState.IN_CALL ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : aiConnectionState === LiveConnectionState.RECONNECTING ? 'bg-yellow-500 animate-pulse' : 'bg-red-500'}`} />
           </div>
         </div>
 
@@ -224,35 +759,114 @@ export default function App() {
           {gameState === GameState.MENU && (
             <div className="space-y-8 animate-fade-in w-full max-w-md">
               <div className="text-center space-y-2">
-                <h2 className="text-white text-xl font-bold">Selecione a Frequência</h2>
-                <p className="text-slate-400 text-sm">Escolha com quem deseja estabelecer comunicação.</p>
+                <h2 className="text-white text-xl font-bold">{t('menu.title')}</h2>
+                <p className="text-slate-400 text-sm">{t('menu.subtitle')}</p>
               </div>
 
               <div className="grid grid-cols-1 gap-4">
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-purple-300 font-bold text-sm uppercase tracking-wider">{t('menu.commanders')}</span>
+                    <span className="text-xs bg-purple-500/20 text-purple-300 px-2 py-1 rounded">{t('menu.singleplayer')}</span>
+                  </div>
+                  {PERSONAS.map((p) => {
+                    const shown = localizePersona(p);
+                    return (
+                      <button
+                        key={p.id}
+                        onClick={() => startAiGame(p)}
+                        disabled={isBusy}
+                        className={`group relative w-full p-4 flex items-center gap-4 bg-gradient-to-br from-purple-900/50 to-slate-900 border border-purple-500/30 rounded-xl transition-all text-left hover:shadow-[0_0_20px_rgba(168,85,247,0.2)] ${isBusy ? 'opacity-50 cursor-not-allowed' : 'hover:border-purple-500'}`}
+                      >
+                        <CommanderPortrait persona={shown} size="sm" />
+                        <div>
+                          <span className="block text-purple-300 font-bold text-lg">{shown.name}</span>
+                          <p className="text-slate-400 text-sm">{shown.description}</p>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+
                 <button
-                  onClick={startAiGame}
+                  onClick={initP2P}
                   disabled={isBusy}
-                  className={`group relative p-6 bg-gradient-to-br from-purple-900/50 to-slate-900 border border-purple-500/30 rounded-xl transition-all text-left hover:shadow-[0_0_20px_rgba(168,85,247,0.2)] ${isBusy ? 'opacity-50 cursor-not-allowed' : 'hover:border-purple-500'}`}
+                  className={`group relative p-6 bg-gradient-to-br from-cyan-900/50 to-slate-900 border border-cyan-500/30 rounded-xl transition-all text-left hover:shadow-[0_0_20px_rgba(34,211,238,0.2)] ${isBusy ? 'opacity-50 cursor-not-allowed' : 'hover:border-cyan-500'}`}
                 >
                   <div className="flex items-center justify-between mb-2">
-                    <span className="text-purple-300 font-bold text-lg">Capitão Xylar (IA)</span>
-                    <span className="text-xs bg-purple-500/20 text-purple-300 px-2 py-1 rounded">SINGLEPLAYER</span>
+                    <span className="text-cyan-300 font-bold text-lg">{t('menu.p2pTitle')}</span>
+                    <span className="text-xs bg-cyan-500/20 text-cyan-300 px-2 py-1 rounded">{t('menu.p2pBadge')}</span>
                   </div>
-                  <p className="text-slate-400 text-sm">Negocie passagem segura com a inteligência artificial alienígena usando API Gemini.</p>
+                  <p className="text-slate-400 text-sm">{t('menu.p2pDescription')}</p>
                 </button>
 
                 <button
-                  onClick={initP2P}
+                  onClick={() => dispatch({ kind: 'open-campaign' })}
                   disabled={isBusy}
-                  className={`group relative p-6 bg-gradient-to-br from-cyan-900/50 to-slate-900 border border-cyan-500/30 rounded-xl transition-all text-left hover:shadow-[0_0_20px_rgba(34,211,238,0.2)] ${isBusy ? 'opacity-50 cursor-not-allowed' : 'hover:border-cyan-500'}`}
+                  className={`group relative p-6 bg-gradient-to-br from-amber-900/40 to-slate-900 border border-amber-500/30 rounded-xl transition-all text-left hover:shadow-[0_0_20px_rgba(245,158,11,0.2)] ${isBusy ? 'opacity-50 cursor-not-allowed' : 'hover:border-amber-500'}`}
                 >
                   <div className="flex items-center justify-between mb-2">
-                    <span className="text-cyan-300 font-bold text-lg">Canal Seguro (Humano)</span>
-                    <span className="text-xs bg-cyan-500/20 text-cyan-300 px-2 py-1 rounded">ONLINE P2P</span>
+                    <span className="text-amber-300 font-bold text-lg">{t('campaign.menuTitle')}</span>
+                    <span className="text-xs bg-amber-500/20 text-amber-300 px-2 py-1 rounded">{t('campaign.menuBadge')}</span>
                   </div>
-                  <p className="text-slate-400 text-sm">Converse com outro jogador humano usando comunicação WebRTC em tempo real.</p>
+                  <p className="text-slate-400 text-sm">{t('campaign.menuDescription')}</p>
+                  <p className="mt-2 text-slate-500 text-[10px] font-mono">
+                    {t('campaign.standing', { reputation: campaign.reputation, resources: campaign.resources })}
+                  </p>
                 </button>
               </div>
+
+              <button
+                onClick={() => dispatch({ kind: 'open-archive' })}
+                disabled={isBusy}
+                className="w-full py-2 text-slate-400 hover:text-cyan-300 border border-slate-700 hover:border-cyan-700 rounded-lg text-xs tracking-wider transition-colors"
+              >
+                {t('menu.archive')}
+              </button>
+
+              <label className="flex items-center justify-center gap-2 text-slate-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={recordSession}
+                  onChange={(e) => setRecordSession(e.target.checked)}
+                  className="accent-cyan-500"
+                />
+                {t('menu.record')}
+              </label>
+
+              <label className="flex items-center justify-center gap-2 text-slate-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={pushToTalk}
+                  onChange={(e) => setPushToTalk(e.target.checked)}
+                  className="accent-cyan-500"
+                />
+                {t('menu.pushToTalk')}
+              </label>
+
+              <InputModePicker value={inputMode} onChange={setInputMode} />
+
+              <label className="flex items-center justify-center gap-2 text-slate-400 text-xs cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={textReplies}
+                  onChange={(e) => setTextReplies(e.target.checked)}
+                  className="accent-cyan-500"
+                />
+                {t('menu.textReplies')}
+              </label>
+
+              <AudioSettingsPanel
+                settings={audioSettings}
+                devices={audioDevices}
+                outputSupported={supportsOutputSelection()}
+                onChange={updateAudioSettings}
+                onRefresh={refreshAudioDevices}
+              />
+
+              <div className="flex justify-center">
+                <LanguageSwitcher value={locale} onChange={changeLocale} />
+              </div>
               
               {error && (
                 <div className="p-3 bg-red-900/50 border border-red-700 text-red-200 rounded text-sm animate-pulse">
@@ -265,26 +879,77 @@ export default function App() {
           {gameState === GameState.PLAYING_AI && (
             <div className="w-full flex flex-col items-center justify-between h-full space-y-8 animate-fade-in">
               <div className="relative group">
-                <div className={`w-40 h-40 rounded-full border-4 flex items-center justify-center bg-slate-950 transition-colors duration-500 ${volumes.output > 10 ? 'border-purple-500 shadow-[0_0_30px_#a855f7]' : 'border-slate-600'}`}>
-                  <svg viewBox="0 0 100 100" className={`w-24 h-24 text-slate-300 transition-transform duration-200 ${volumes.output > 10 ? 'scale-110 text-purple-300' : ''}`}>
-                     <path fill="currentColor" d="M50 10 C30 10 15 30 15 50 C15 75 30 90 50 90 C70 90 85 75 85 50 C85 30 70 10 50 10 M35 45 C32 45 30 42 30 40 C30 38 32 35 35 35 C38 35 40 38 40 40 C40 42 38 45 35 45 M65 45 C62 45 60 42 60 40 C60 38 62 35 65 35 C68 35 70 38 70 40 C70 42 68 45 65 45 M50 75 C40 75 35 65 35 65 C35 65 40 68 50 68 C60 68 65 65 65 65 C65 65 60 75 50 75" />
-                  </svg>
-                </div>
+                <CommanderPortrait persona={shownPersona} speaking={commanderSpeaking} />
               </div>
               <div className="h-8 text-center w-full">
                  {error ? (
                    <span className="text-red-400 font-bold">{error}</span>
+                 ) : outcome ? (
+                   <span className={`font-mono text-sm font-bold ${outcome.result === 'victory' ? 'text-green-400' : 'text-red-400'}`}>
+                     {outcome.result === 'victory' ? t('ai.victory') : t('ai.defeat')}
+                   </span>
+                 ) : aiConnectionState === LiveConnectionState.RECONNECTING ? (
+                   <span className="text-yellow-400 animate-pulse text-sm">{t('ai.reconnecting')}</span>
                  ) : !isAiConnected ? (
-                   <span className="text-cyan-500 animate-pulse text-sm">CONECTANDO AO GEMINI...</span>
+                   <span className="text-cyan-500 animate-pulse text-sm">{t('ai.connecting')}</span>
                  ) : (
-                    <span className="text-purple-400 font-mono text-sm">:: LINK NEURAL ESTABELECIDO ::</span>
+                    <span className="text-purple-400 font-mono text-sm">{t('ai.connected')}</span>
                  )}
               </div>
               <div className="w-full grid grid-cols-2 gap-8 p-6 bg-slate-950/50 rounded-xl border border-slate-800">
-                <Visualizer level={volumes.input} color="bg-cyan-500" label="Sua Voz" />
-                <Visualizer level={volumes.output} color="bg-purple-500" label="Capitão Xylar" />
+                <Visualizer
+                  analyser={() => liveServiceRef.current?.getInputAnalyser() ?? null}
+                  color="#06b6d4"
+                  label={t('ai.yourVoice')}
+                  variant={visualizerStyle}
+                />
+                <Visualizer
+                  analyser={() => liveServiceRef.current?.getOutputAnalyser() ?? null}
+                  color="#a855f7"
+                  label={shownPersona.name}
+                  variant={visualizerStyle}
+                />
               </div>
-              <button onClick={stopAiGame} className="px-6 py-2 bg-red-900/30 text-red-400 border border-red-900 rounded-lg hover:bg-red-900/50 text-xs tracking-wider">ENCERRAR</button>
+              <VisualizerStylePicker value={visualizerStyle} onChange={setVisualizerStyle} />
+              <TranscriptPanel messages={transcript} aiLabel={shownPersona.name} />
+              {inputMode !== 'voice' && (
+                <CommanderTextInput
+                  disabled={!isAiConnected}
+                  onSend={(text) => liveServiceRef.current?.sendText(text) ?? false}
+                />
+              )}
+              {micUnavailable && (
+                <p className="text-yellow-400 text-xs font-mono">{t('ai.micUnavailable')}</p>
+              )}
+              {hasMicInput && (
+                <div className="flex items-center gap-3">
+                  {pushToTalk && (
+                    <button
+                      onPointerDown={() => setTalking(true)}
+                      onPointerUp={() => setTalking(false)}
+                      onPointerLeave={() => isTalking && setTalking(false)}
+                      disabled={!isAiConnected || isMuted}
+                      className={`px-6 py-2 rounded-lg text-xs font-bold tracking-wider select-none transition-colors disabled:opacity-40 ${isTalking ? 'bg-cyan-500 text-slate-950 shadow-[0_0_15px_rgba(34,211,238,0.5)]' : 'bg-cyan-900/40 text-cyan-300 border border-cyan-700'}`}
+                    >
+                      {isTalking ? t('ai.talking') : t('ai.holdToTalk')}
+                    </button>
+                  )}
+                  <button
+                    onClick={toggleMute}
+                    className={`px-4 py-2 rounded-lg text-xs tracking-wider border transition-colors ${isMuted ? 'bg-yellow-900/40 text-yellow-300 border-yellow-700' : 'text-slate-400 border-slate-700 hover:border-slate-500'}`}
+                  >
+                    {isMuted ? t('ai.muted') : t('ai.mute')}
+                  </button>
+                </div>
+              )}
+              <AudioSettingsPanel
+                settings={audioSettings}
+                devices={audioDevices}
+                outputSupported={supportsOutputSelection()}
+                onChange={updateAudioSettings}
+                onRefresh={refreshAudioDevices}
+              />
+              <button onClick={stopAiGame} className="px-6 py-2 bg-red-900/30 text-red-400 border border-red-900 rounded-lg hover:bg-red-900/50 text-xs tracking-wider">{t('ai.end')}</button>
             </div>
           )}
 
@@ -293,9 +958,9 @@ export default function App() {
               
               {/* ID Display */}
               <div className="bg-slate-800 p-4 rounded-lg border border-slate-600 w-full max-w-sm">
-                <p className="text-slate-400 text-xs uppercase mb-1">Seu ID de Comunicador</p>
+                <p className="text-slate-400 text-xs uppercase mb-1">{t('p2p.yourId')}</p>
                 <div className="text-3xl font-mono font-bold text-cyan-400 tracking-widest select-all">{myId}</div>
-                <p className="text-slate-500 text-[10px] mt-2">Compartilhe este código com outro piloto.</p>
+                <p className="text-slate-500 text-[10px] mt-2">{t('p2p.shareId')}</p>
               </div>
 
               {/* Status & Connection UI */}
@@ -306,7 +971,7 @@ export default function App() {
                      <input 
                        type="text" 
                        maxLength={4}
-                       placeholder="DIGITE O ID DO ALVO"
+                       placeholder={t('p2p.targetPlaceholder')}
                        value={targetId}
                        onChange={(e) => setTargetId(e.target.value.toUpperCase())}
                        className="bg-slate-950 border border-slate-700 p-3 text-center text-white font-mono text-xl focus:border-cyan-500 outline-none rounded"
@@ -316,55 +981,283 @@ export default function App() {
                        disabled={targetId.length < 4 || isBusy}
                        className={`bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-3 rounded shadow-lg shadow-cyan-900/50 transition-all ${isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
                      >
-                       {isBusy ? 'CONECTANDO...' : 'INICIAR CHAMADA'}
+                       {isBusy ? t('p2p.connecting') : t('p2p.startCall')}
                      </button>
                    </div>
                 )}
 
-                {p2pState === P2PState.CALLING && incomingCallerId && (
+                {incomingCallerId && (
                   <div className="flex flex-col items-center animate-pulse">
-                    <p className="text-yellow-400 mb-4 font-bold">CHAMADA ENTRANDO DE: {incomingCallerId}</p>
+                    <p className="text-yellow-400 mb-4 font-bold">{t('p2p.incomingCall', { id: incomingCallerId })}</p>
                     <button 
                        onClick={answerPeer}
                        disabled={isBusy}
                        className={`bg-green-600 hover:bg-green-500 text-white font-bold px-8 py-4 rounded-full shadow-[0_0_20px_#16a34a] ${isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
                      >
-                       {isBusy ? 'CONECTANDO...' : 'ATENDER'}
+                       {isBusy ? t('p2p.connecting') : t('p2p.answer')}
+                     </button>
+                    <button
+                       onClick={rejectPeer}
+                       disabled={isBusy}
+                       className="mt-4 text-red-400 hover:text-red-300 text-xs tracking-wider"
+                     >
+                       {t('p2p.reject')}
                      </button>
                   </div>
                 )}
 
-                {p2pState === P2PState.CALLING && !incomingCallerId && (
-                  <div className="text-cyan-400 animate-pulse">CHAMANDO {targetId}...</div>
+                {p2pCall?.phase === P2PState.DIALING && (
+                  <div className="flex flex-col items-center gap-4">
+                    <div className="text-cyan-400 animate-pulse">{t('p2p.calling', { id: p2pCall.peerId })}</div>
+                    <button onClick={cancelCall} className="text-red-400 hover:text-red-300 text-xs tracking-wider">{t('p2p.cancel')}</button>
+                  </div>
                 )}
 
                 {p2pState === P2PState.IN_CALL && (
-                   <div className="w-full grid grid-cols-2 gap-8 p-6 bg-slate-950/50 rounded-xl border border-green-900/50">
-                     <Visualizer level={volumes.input} color="bg-cyan-500" label="VOCÊ" />
-                     <Visualizer level={volumes.output} color="bg-green-500" label="OUTRO PILOTO" />
+                   <div className="w-full grid grid-cols-3 gap-6 p-6 bg-slate-950/50 rounded-xl border border-green-900/50">
+                     <Visualizer
+                       analyser={() => peerServiceRef.current?.getInputAnalyser() ?? null}
+                       color="#06b6d4"
+                       label={t('p2p.you')}
+                       variant={visualizerStyle}
+                     />
+                     {commanderHostId && (
+                       <div className="flex flex-col items-center gap-2">
+                         <CommanderPortrait
+                           persona={shownPersona}
+                           size="sm"
+                           speaking={commanderHostId === myId ? commanderSpeaking : speakingPeers.includes(commanderHostId)}
+                         />
+                         <span className="text-[10px] font-mono text-purple-300 uppercase tracking-widest">
+                           {shownPersona.name} {commanderHostId === myId ? '' : t('p2p.commanderVia', { id: commanderHostId })}
+                         </span>
+                       </div>
+                     )}
+                     {participants.map(p => (
+                       <ParticipantTile
+                         key={p.id}
+                         peerId={p.id}
+                         stream={p.stream}
+                         analyser={() => peerServiceRef.current?.getParticipantAnalyser(p.id) ?? null}
+                         variant={visualizerStyle}
+                         sinkId={audioSettings.outputDeviceId}
+                         quality={connectionQuality[p.id] ?? null}
+                         onPlaybackBlocked={() => dispatch({ kind: 'error', message: t('errors.playbackBlocked') })}
+                       />
+                     ))}
                    </div>
                 )}
+
+                {p2pState === P2PState.IN_CALL && (
+                  <VisualizerStylePicker value={visualizerStyle} onChange={setVisualizerStyle} />
+                )}
+
+                {p2pState === P2PState.IN_CALL && participants.length + 1 < MAX_FLEET_SIZE && (
+                  <div className="flex gap-2 w-full max-w-xs">
+                    <input
+                      type="text"
+                      maxLength={4}
+                      placeholder={t('p2p.invitePlaceholder')}
+                      value={targetId}
+                      onChange={(e) => setTargetId(e.target.value.toUpperCase())}
+                      className="flex-1 bg-slate-950 border border-slate-700 p-2 text-center text-white font-mono focus:border-cyan-500 outline-none rounded"
+                    />
+                    <button
+                      onClick={callPeer}
+                      disabled={targetId.length < 4 || isBusy}
+                      className={`px-4 bg-cyan-700 hover:bg-cyan-600 text-white text-xs font-bold rounded ${targetId.length < 4 || isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                      {t('p2p.add')}
+                    </button>
+                  </div>
+                )}
+
+                {p2pState === P2PState.IN_CALL && outcome && (
+                  <span className={`font-mono text-sm font-bold ${outcome.result === 'victory' ? 'text-green-400' : 'text-red-400'}`}>
+                    {outcome.result === 'victory' ? t('ai.victory') : t('ai.defeat')}
+                  </span>
+                )}
+
+                {p2pState === P2PState.IN_CALL && !commanderHostId && !matchState && (
+                  <div className="flex gap-2 w-full max-w-sm">
+                    <select
+                      value={persona.id}
+                      onChange={(e) => setPersona(getPersona(e.target.value))}
+                      className="flex-1 bg-slate-950 border border-slate-700 p-2 text-white text-sm focus:border-purple-500 outline-none rounded"
+                    >
+                      {PERSONAS.map(p => <option key={p.id} value={p.id}>{localizePersona(p).name}</option>)}
+                    </select>
+                    <button
+                      onClick={summonCommander}
+                      disabled={isBusy}
+                      className={`px-4 bg-purple-800/60 hover:bg-purple-700/60 text-purple-200 border border-purple-600 text-xs font-bold rounded ${isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    >
+                      {t('p2p.summonCommander')}
+                    </button>
+                  </div>
+                )}
+
+                {p2pState === P2PState.IN_CALL && commanderHostId === myId && (
+                  <div className="w-full space-y-2">
+                    <div className="flex justify-between items-center text-xs">
+                      <span className={aiConnectionState === LiveConnectionState.CONNECTED ? 'text-purple-400 font-mono' : 'text-yellow-400 animate-pulse'}>
+                        {aiConnectionState === LiveConnectionState.CONNECTED
+                          ? t('p2p.commanderInChannel')
+                          : aiConnectionState === LiveConnectionState.RECONNECTING ? t('ai.reconnecting') : t('p2p.connectingCommander')}
+                      </span>
+                      <button onClick={dismissCommander} className="text-red-400 hover:text-red-300 tracking-wider">{t('p2p.dismiss')}</button>
+                    </div>
+                    <TranscriptPanel messages={transcript} aiLabel={shownPersona.name} />
+                  </div>
+                )}
+
+                {p2pState === P2PState.IN_CALL && matchState && getMatchScenario(matchState.scenarioId) && (
+                  <MatchPanel
+                    state={matchState}
+                    scenario={localizeScenario(getMatchScenario(matchState.scenarioId)!)}
+                    myId={myId}
+                    onReady={() => matchSessionRef.current?.markReady()}
+                    onPropose={(amount) => matchSessionRef.current?.propose(amount)}
+                    onConfirm={(proposalId) => matchSessionRef.current?.confirm(proposalId)}
+                    onWalkAway={() => matchSessionRef.current?.walkAway()}
+                  />
+                )}
+
+                {p2pState === P2PState.IN_CALL && !matchState && !commanderHostId && participants.length === 1 && openDataChannels.length > 0 && (
+                  <button
+                    onClick={startMatch}
+                    className="px-6 py-2 bg-yellow-700/40 text-yellow-300 border border-yellow-700 rounded-lg hover:bg-yellow-700/60 text-xs font-bold tracking-wider"
+                  >
+                    {t('p2p.startMatch')}
+                  </button>
+                )}
+
+                {p2pState === P2PState.IN_CALL && (
+                  <ChatPanel
+                    entries={chatEntries}
+                    isOpen={openDataChannels.length > 0}
+                    typingPeers={typingPeers}
+                    onSendChat={sendChat}
+                    onTyping={(isTyping) => peerServiceRef.current?.sendMessage({ type: 'typing', isTyping })}
+                    onOffer={sendOffer}
+                    onRespond={respondToOffer}
+                  />
+                )}
                 
                 {error && (
                   <div className="text-red-400 text-xs mt-2">{error}</div>
                 )}
+
+                {peerServiceRef.current && (
+                  <IceDiagnosticsPanel
+                    signalingServer={describeSignalingServer(PEER_CONFIG)}
+                    iceServerCount={PEER_CONFIG.iceServers?.length ?? 0}
+                    onRun={() => peerServiceRef.current!.runIceDiagnostics()}
+                  />
+                )}
+
+                <VoiceEffectPicker value={voiceEffect} onChange={changeVoiceEffect} />
+
+                <label className="flex items-center justify-center gap-2 text-slate-400 text-xs cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={voiceMonitor}
+                    onChange={(e) => changeVoiceMonitor(e.target.checked)}
+                    className="accent-cyan-500"
+                  />
+                  {t('voice.monitor')}
+                </label>
+
+                <AudioSettingsPanel
+                  settings={audioSettings}
+                  devices={audioDevices}
+                  outputSupported={supportsOutputSelection()}
+                  onChange={updateAudioSettings}
+                  onRefresh={refreshAudioDevices}
+                />
               </div>
 
-              <button onClick={stopP2P} className="px-6 py-2 bg-red-900/30 text-red-400 border border-red-900 rounded-lg hover:bg-red-900/50 text-xs tracking-wider">
-                {p2pState === P2PState.IN_CALL ? 'DESLIGAR' : 'VOLTAR'}
+              <button onClick={() => stopP2P()} className="px-6 py-2 bg-red-900/30 text-red-400 border border-red-900 rounded-lg hover:bg-red-900/50 text-xs tracking-wider">
+                {p2pState === P2PState.IN_CALL ? t('p2p.hangUp') : t('p2p.back')}
               </button>
             </div>
           )}
 
+          {gameState === GameState.ARCHIVE && (
+            <SessionArchiveScreen archive={SESSION_ARCHIVE} onBack={() => dispatch({ kind: 'back-to-menu' })} />
+          )}
+
+          {gameState === GameState.CAMPAIGN && (
+            <>
+              <CampaignMapScreen
+                progress={campaign}
+                disabled={isBusy}
+                onStartSector={(sector) => startAiGame(getPersona(sector.personaId), sector)}
+                onReset={() => setCampaign(createCampaign())}
+                onBack={() => dispatch({ kind: 'back-to-menu' })}
+              />
+              {error && (
+                <div className="mt-4 p-3 bg-red-900/50 border border-red-700 text-red-200 rounded text-sm">
+                  {error}
+                </div>
+              )}
+            </>
+          )}
+
           {gameState === GameState.GAME_OVER && (
-            <div className="space-y-6 text-center animate-fade-in">
-              <h2 className="text-3xl font-bold text-white">Sessão Finalizada</h2>
-              <button
-                onClick={() => setGameState(GameState.MENU)}
-                className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors"
-              >
-                Voltar ao Menu
-              </button>
+            <div className="space-y-6 text-center animate-fade-in flex flex-col items-center">
+              {matchSummary && getMatchScenario(matchSummary.scenarioId) ? (
+                <MatchResultView state={matchSummary} scenario={localizeScenario(getMatchScenario(matchSummary.scenarioId)!)} myId={myId} />
+              ) : outcome ? (
+                <div className="space-y-3">
+                  <h2 className={`text-3xl font-bold ${outcome.result === 'victory' ? 'text-green-400' : 'text-red-400'}`}>
+                    {outcome.result === 'victory' ? t('gameOver.victoryTitle') : t('gameOver.defeatTitle')}
+                  </h2>
+                  <p className="text-slate-400 text-sm">
+                    {outcome.result === 'victory' ? t('gameOver.victoryText') : t('gameOver.defeatText')}
+                  </p>
+                  {outcome.reason && (
+                    <blockquote className="max-w-md mx-auto p-4 bg-slate-950/50 border-l-4 border-purple-500 text-purple-200 text-sm italic text-left">
+                      "{outcome.reason}"
+                      <span className="block mt-2 not-italic text-[10px] font-mono uppercase tracking-widest text-slate-500">{shownPersona.name}</span>
+                    </blockquote>
+                  )}
+                </div>
+              ) : (
+                <h2 className="text-3xl font-bold text-white">{t('gameOver.sessionEnded')}</h2>
+              )}
+              {conversationSummary && (
+                <ConversationSummaryView summary={conversationSummary} onExport={exportAnalytics} />
+              )}
+              {finishedRecording && (
+                <button
+                  onClick={exportRecording}
+                  className="px-6 py-2 bg-cyan-900/40 text-cyan-300 border border-cyan-800 rounded-lg hover:bg-cyan-900/60 text-xs font-bold tracking-wider"
+                >
+                  {t('gameOver.exportRecording')}
+                </button>
+              )}
+              {campaignSector && (
+                <p className="text-slate-500 text-xs font-mono">
+                  {localizeSector(campaignSector).name} · {t('campaign.standing', { reputation: campaign.reputation, resources: campaign.resources })}
+                </p>
+              )}
+              <div className="flex gap-3">
+                {campaignSector && (
+                  <button
+                    onClick={() => dispatch({ kind: 'open-campaign' })}
+                    className="px-6 py-3 bg-amber-900/40 text-amber-200 border border-amber-700 hover:bg-amber-900/60 rounded-lg font-medium transition-colors"
+                  >
+                    {t('campaign.backToMap')}
+                  </button>
+                )}
+                <button
+                  onClick={() => dispatch({ kind: 'back-to-menu' })}
+                  className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-medium transition-colors"
+                >
+                  {t('app.backToMenu')}
+                </button>
+              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { AudioDeviceSettings } from '../types';
+import { AudioDeviceLists } from '../utils/audioDevices';
+import { MessageKey, t } from '../i18n';
+
+interface AudioSettingsPanelProps {
+  settings: AudioDeviceSettings;
+  devices: AudioDeviceLists;
+  outputSupported: boolean;
+  onChange: (settings: AudioDeviceSettings) => void;
+  // Device labels are only available after microphone permission, so re-list on open
+  onRefresh: () => void;
+}
+
+const PROCESSING_LABELS: Record<'echoCancellation' | 'noiseSuppression' | 'autoGainControl', MessageKey> = {
+  echoCancellation: 'audio.echoCancellation',
+  noiseSuppression: 'audio.noiseSuppression',
+  autoGainControl: 'audio.autoGainControl',
+};
+
+export const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, devices, outputSupported, onChange, onRefresh }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => { setIsOpen(true); onRefresh(); }}
+        className="text-[10px] font-mono text-slate-500 hover:text-cyan-400 tracking-widest"
+      >
+        {t('audio.title').toUpperCase()}
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-sm mx-auto p-4 bg-slate-950/70 border border-slate-700 rounded-lg text-left text-xs font-mono space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-slate-400 uppercase tracking-widest">{t('audio.title')}</span>
+        <button onClick={() => setIsOpen(false)} className="text-slate-500 hover:text-white">✕</button>
+      </div>
+
+      <label className="block space-y-1">
+        <span className="text-slate-500">{t('audio.microphone')}</span>
+        <select
+          value={settings.inputDeviceId ?? ''}
+          onChange={(e) => onChange({ ...settings, inputDeviceId: e.target.value || null })}
+          className="w-full bg-slate-900 border border-slate-700 p-2 text-slate-200 rounded outline-none focus:border-cyan-500"
+        >
+          <option value="">{t('audio.systemDefault')}</option>
+          {devices.inputs.filter(d => d.deviceId !== 'default').map((d, i) => (
+            <option key={d.deviceId} value={d.deviceId}>{d.label || t('audio.microphoneN', { n: i + 1 })}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block space-y-1">
+        <span className="text-slate-500">{t('audio.speaker')}</span>
+        <select
+          value={settings.outputDeviceId ?? ''}
+          disabled={!outputSupported}
+          onChange={(e) => onChange({ ...settings, outputDeviceId: e.target.value || null })}
+          className="w-full bg-slate-900 border border-slate-700 p-2 text-slate-200 rounded outline-none focus:border-cyan-500 disabled:opacity-50"
+        >
+          <option value="">{t('audio.systemDefault')}</option>
+          {devices.outputs.filter(d => d.deviceId !== 'default').map((d, i) => (
+            <option key={d.deviceId} value={d.deviceId}>{d.label || t('audio.speakerN', { n: i + 1 })}</option>
+          ))}
+        </select>
+        {!outputSupported && <span className="block text-slate-600">{t('audio.outputUnsupported')}</span>}
+      </label>
+
+      <div className="space-y-1">
+        {(Object.keys(PROCESSING_LABELS) as (keyof typeof PROCESSING_LABELS)[]).map((key) => (
+          <label key={key} className="flex items-center justify-between cursor-pointer">
+            <span className="text-slate-400">{t(PROCESSING_LABELS[key])}</span>
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+              className="accent-cyan-500"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
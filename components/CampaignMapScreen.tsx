@@ -0,0 +1,113 @@
+import React from 'react';
+import { CampaignDifficulty, CampaignProgress, CampaignSector } from '../types';
+import { CAMPAIGN_SECTORS, localizeSector } from '../data/campaign';
+import { getPersona, localizePersona } from '../data/personas';
+import { getSectorStatus, isCampaignComplete, SectorStatus } from '../services/campaign';
+import { CommanderPortrait } from './CommanderPortrait';
+import { t, MessageKey } from '../i18n';
+
+interface CampaignMapScreenProps {
+  progress: CampaignProgress;
+  disabled: boolean;
+  onStartSector: (sector: CampaignSector) => void;
+  onReset: () => void;
+  onBack: () => void;
+}
+
+const DIFFICULTY_LABELS: Record<CampaignDifficulty, MessageKey> = {
+  easy: 'campaign.easy',
+  normal: 'campaign.normal',
+  hard: 'campaign.hard',
+};
+
+const STATUS_LABELS: Record<SectorStatus, MessageKey> = {
+  locked: 'campaign.locked',
+  available: 'campaign.available',
+  won: 'campaign.won',
+  lost: 'campaign.lost',
+};
+
+const STATUS_STYLES: Record<SectorStatus, string> = {
+  locked: 'text-slate-600',
+  available: 'text-cyan-300',
+  won: 'text-green-400',
+  lost: 'text-red-400',
+};
+
+export const CampaignMapScreen: React.FC<CampaignMapScreenProps> = ({ progress, disabled, onStartSector, onReset, onBack }) => {
+  const reset = () => {
+    if (window.confirm(t('campaign.resetConfirm'))) onReset();
+  };
+
+  return (
+    <div className="w-full max-w-md space-y-6 animate-fade-in">
+      <div className="text-center space-y-2">
+        <h2 className="text-white text-xl font-bold">{t('campaign.title')}</h2>
+        <div className="flex justify-center gap-6 text-xs font-mono">
+          <span className="text-slate-400">
+            {t('campaign.reputation')}: <span className="text-purple-300">{progress.reputation}/100</span>
+          </span>
+          <span className="text-slate-400">
+            {t('campaign.resources')}: <span className="text-amber-300">{progress.resources}</span>
+          </span>
+        </div>
+        <div className="h-1 w-full bg-slate-800 rounded overflow-hidden">
+          <div className="h-full bg-purple-500 transition-all" style={{ width: `${progress.reputation}%` }} />
+        </div>
+      </div>
+
+      {isCampaignComplete(progress) && (
+        <p className="text-green-400 text-xs font-mono tracking-widest text-center">{t('campaign.complete')}</p>
+      )}
+
+      <div className="space-y-2 text-left">
+        {CAMPAIGN_SECTORS.map((sector, index) => {
+          const status = getSectorStatus(progress, sector);
+          const persona = localizePersona(getPersona(sector.personaId));
+          const shown = localizeSector(sector);
+          const playable = status === 'available' || status === 'lost';
+          return (
+            <div
+              key={sector.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border ${status === 'locked' ? 'border-slate-800 bg-slate-950/30 opacity-60' : 'border-slate-700 bg-slate-950/50'}`}
+            >
+              <CommanderPortrait persona={persona} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-[10px] font-mono tracking-widest">
+                  <span className="text-slate-500">{t('campaign.sector', { n: index + 1 })}</span>
+                  <span className="text-slate-500">· {t(DIFFICULTY_LABELS[sector.difficulty])}</span>
+                  <span className={STATUS_STYLES[status]}>· {t(STATUS_LABELS[status])}</span>
+                </div>
+                <span className="block text-purple-300 font-bold text-sm">{shown.name}</span>
+                <p className="text-slate-400 text-xs">{shown.description}</p>
+                <span className="text-amber-300/80 text-[10px] font-mono">{t('campaign.reward', { amount: sector.reward })}</span>
+              </div>
+              {playable && (
+                <button
+                  onClick={() => onStartSector(sector)}
+                  disabled={disabled}
+                  className={`px-3 py-2 bg-purple-900/40 text-purple-200 border border-purple-700 rounded-lg text-[10px] font-bold tracking-wider ${disabled ? 'opacity-50 cursor-not-allowed' : 'hover:bg-purple-900/60'}`}
+                >
+                  {status === 'lost' ? t('campaign.retry') : t('campaign.start')}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-center gap-3">
+        <button onClick={onBack} className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white text-sm transition-colors">
+          {t('app.backToMenu')}
+        </button>
+        <button
+          onClick={reset}
+          disabled={disabled}
+          className="px-4 py-2 text-red-400 hover:text-red-300 border border-red-900 rounded-lg text-[10px] tracking-wider"
+        >
+          {t('campaign.reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
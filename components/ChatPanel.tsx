@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatEntry, GameEventMessage } from '../types';
+import { MessageKey, t } from '../i18n';
+
+interface ChatPanelProps {
+  entries: ChatEntry[];
+  isOpen: boolean;
+  typingPeers: string[];
+  onSendChat: (text: string) => void;
+  onTyping: (isTyping: boolean) => void;
+  onOffer: (terms: string) => void;
+  onRespond: (offerId: string, accept: boolean) => void;
+}
+
+// Stop announcing "typing" after this long without keystrokes
+const TYPING_IDLE_MS = 2000;
+
+const EVENT_LABELS: Record<GameEventMessage['kind'], MessageKey> = {
+  offer: 'chat.offer',
+  accept: 'chat.accepted',
+  reject: 'chat.rejected',
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ entries, isOpen, typingPeers, onSendChat, onTyping, onOffer, onRespond }) => {
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [entries, typingPeers]);
+
+  useEffect(() => {
+    return () => {
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+    };
+  }, []);
+
+  // Offers from the other pilot that were not answered yet
+  const answeredOfferIds = new Set(
+    entries
+      .filter(e => e.message.type === 'game-event' && e.message.kind !== 'offer')
+      .map(e => (e.message as GameEventMessage).offerId)
+  );
+
+  const stopTyping = () => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+      onTyping(false);
+    }
+  };
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (!typingTimeoutRef.current) onTyping(true);
+    else clearTimeout(typingTimeoutRef.current);
+    typingTimeoutRef.current = window.setTimeout(() => {
+      typingTimeoutRef.current = null;
+      onTyping(false);
+    }, TYPING_IDLE_MS);
+  };
+
+  const submit = (asOffer: boolean) => {
+    const text = draft.trim();
+    if (!text || !isOpen) return;
+    stopTyping();
+    if (asOffer) onOffer(text);
+    else onSendChat(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <div ref={scrollRef} className="h-40 overflow-y-auto p-3 bg-slate-950/50 rounded-xl border border-slate-800 space-y-2 text-left">
+        {entries.length === 0 && (
+          <p className="text-slate-600 text-xs font-mono text-center">{t(isOpen ? 'chat.channelOpen' : 'chat.channelUnavailable')}</p>
+        )}
+        {entries.map(({ from, peerId, message }) => (
+          <div key={message.id} className={`flex flex-col ${from === 'local' ? 'items-end' : 'items-start'}`}>
+            {from === 'remote' && peerId && (
+              <span className="text-[10px] font-mono text-slate-500">{peerId}</span>
+            )}
+            {message.type === 'chat' ? (
+              <p className={`max-w-[85%] px-3 py-1.5 rounded-lg text-sm ${from === 'local' ? 'bg-cyan-900/40 text-cyan-100' : 'bg-green-900/40 text-green-100'}`}>
+                {message.text}
+              </p>
+            ) : (
+              <div className={`max-w-[85%] px-3 py-2 rounded-lg border text-xs font-mono ${message.kind === 'accept' ? 'border-green-600 text-green-300' : message.kind === 'reject' ? 'border-red-600 text-red-300' : 'border-yellow-600 text-yellow-200'}`}>
+                <span className="block text-[10px] tracking-widest">{t(EVENT_LABELS[message.kind])}</span>
+                {message.terms && <span className="block text-sm font-sans mt-1">{message.terms}</span>}
+                {message.kind === 'offer' && from === 'remote' && !answeredOfferIds.has(message.id) && (
+                  <div className="flex gap-2 mt-2">
+                    <button onClick={() => onRespond(message.id, true)} className="px-2 py-1 bg-green-700 hover:bg-green-600 text-white rounded">{t('chat.accept')}</button>
+                    <button onClick={() => onRespond(message.id, false)} className="px-2 py-1 bg-red-800 hover:bg-red-700 text-white rounded">{t('chat.reject')}</button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {typingPeers.length > 0 && (
+          <p className="text-slate-500 text-[10px] font-mono animate-pulse">{t('chat.typing', { names: typingPeers.join(', ') })}</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          disabled={!isOpen}
+          placeholder={isOpen ? t('chat.placeholder') : t('chat.waitingChannel')}
+          onChange={(e) => handleDraftChange(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(false); }}
+          onBlur={stopTyping}
+          className="flex-1 bg-slate-950 border border-slate-700 px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none rounded"
+        />
+        <button onClick={() => submit(false)} disabled={!isOpen || !draft.trim()} className="px-3 bg-cyan-700 hover:bg-cyan-600 disabled:opacity-40 text-white text-xs font-bold rounded">{t('chat.send')}</button>
+        <button onClick={() => submit(true)} disabled={!isOpen || !draft.trim()} className="px-3 bg-yellow-700 hover:bg-yellow-600 disabled:opacity-40 text-white text-xs font-bold rounded">{t('chat.propose')}</button>
+      </div>
+    </div>
+  );
+};
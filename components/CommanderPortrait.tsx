@@ -0,0 +1,21 @@
+import React from 'react';
+import { CommanderPersona } from '../types';
+
+interface CommanderPortraitProps {
+  persona: CommanderPersona;
+  speaking?: boolean;
+  size?: 'sm' | 'lg';
+}
+
+export const CommanderPortrait: React.FC<CommanderPortraitProps> = ({ persona, speaking = false, size = 'lg' }) => {
+  const frame = size === 'lg' ? 'w-40 h-40 border-4' : 'w-14 h-14 border-2';
+  const icon = size === 'lg' ? 'w-24 h-24' : 'w-9 h-9';
+
+  return (
+    <div className={`${frame} shrink-0 rounded-full flex items-center justify-center bg-slate-950 transition-colors duration-500 ${speaking ? 'border-purple-500 shadow-[0_0_30px_#a855f7]' : 'border-slate-600'}`}>
+      <svg viewBox="0 0 100 100" aria-label={persona.name} className={`${icon} text-slate-300 transition-transform duration-200 ${speaking ? 'scale-110 text-purple-300' : ''}`}>
+        <path fill="currentColor" fillRule="evenodd" d={persona.portrait} />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { t } from '../i18n';
+
+interface CommanderTextInputProps {
+  disabled: boolean;
+  // Returns false if the message could not be sent, so the draft is kept
+  onSend: (text: string) => boolean;
+}
+
+export const CommanderTextInput: React.FC<CommanderTextInputProps> = ({ disabled, onSend }) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    if (!draft.trim() || disabled) return;
+    if (onSend(draft)) setDraft('');
+  };
+
+  return (
+    <div className="w-full flex gap-2">
+      <input
+        type="text"
+        value={draft}
+        disabled={disabled}
+        placeholder={t('ai.textPlaceholder')}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+        className="flex-1 bg-slate-950 border border-slate-700 px-3 py-2 text-sm text-white focus:border-purple-500 outline-none rounded disabled:opacity-40"
+      />
+      <button
+        onClick={submit}
+        disabled={disabled || !draft.trim()}
+        className="px-3 bg-purple-700 hover:bg-purple-600 disabled:opacity-40 text-white text-xs font-bold rounded"
+      >
+        {t('ai.send')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ConnectionQuality, ConnectionQualityLevel, IceCandidateType } from '../types';
+import { t, MessageKey } from '../i18n';
+
+interface ConnectionQualityIndicatorProps {
+  // null until the first stats sample arrives
+  quality: ConnectionQuality | null;
+}
+
+const LEVEL_BARS: Record<ConnectionQualityLevel, number> = { excellent: 4, good: 3, fair: 2, poor: 1 };
+
+const LEVEL_COLORS: Record<ConnectionQualityLevel, string> = {
+  excellent: 'bg-green-400',
+  good: 'bg-green-400',
+  fair: 'bg-yellow-400',
+  poor: 'bg-red-500',
+};
+
+const LEVEL_LABELS: Record<ConnectionQualityLevel, MessageKey> = {
+  excellent: 'quality.excellent',
+  good: 'quality.good',
+  fair: 'quality.fair',
+  poor: 'quality.poor',
+};
+
+const PATH_LABELS: Record<IceCandidateType, MessageKey> = {
+  host: 'ice.host',
+  srflx: 'ice.srflx',
+  prflx: 'ice.prflx',
+  relay: 'ice.relay',
+};
+
+const formatValue = (value: number | null, unit: string, digits = 0) =>
+  value === null ? '—' : `${value.toFixed(digits)} ${unit}`;
+
+// Signal-strength bars for one call; hovering shows the numbers behind them
+export const ConnectionQualityIndicator: React.FC<ConnectionQualityIndicatorProps> = ({ quality }) => {
+  const activeBars = quality ? LEVEL_BARS[quality.level] : 0;
+  const color = quality ? LEVEL_COLORS[quality.level] : 'bg-slate-700';
+
+  const rows: [MessageKey, string][] = quality ? [
+    ['quality.rtt', formatValue(quality.rttMs, 'ms')],
+    ['quality.jitter', formatValue(quality.jitterMs, 'ms')],
+    ['quality.loss', formatValue(quality.packetLossPercent, '%', 1)],
+    ['quality.sent', formatValue(quality.sendKbps, 'kbps')],
+    ['quality.received', formatValue(quality.receiveKbps, 'kbps')],
+    ['quality.path', quality.candidateType ? t(PATH_LABELS[quality.candidateType]) : '—'],
+  ] : [];
+
+  return (
+    <div
+      className="group relative inline-flex items-end gap-0.5 h-3 cursor-help"
+      aria-label={quality ? t(LEVEL_LABELS[quality.level]) : t('quality.measuring')}
+    >
+      {[1, 2, 3, 4].map(bar => (
+        <span
+          key={bar}
+          className={`w-1 rounded-sm ${bar <= activeBars ? color : 'bg-slate-700'}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+      <div className="hidden group-hover:block absolute bottom-full left-1/2 -translate-x-1/2 mb-2 z-10 w-48 p-2 bg-slate-950 border border-slate-700 rounded text-[10px] font-mono text-left">
+        <div className="text-slate-300 tracking-widest mb-1">
+          {t('quality.title')}: {quality ? t(LEVEL_LABELS[quality.level]) : t('quality.measuring')}
+        </div>
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between gap-2 text-slate-500">
+            <span>{t(label)}</span>
+            <span className="text-slate-300">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
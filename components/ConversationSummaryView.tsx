@@ -0,0 +1,72 @@
+import React from 'react';
+import { ConversationSummary } from '../types';
+import { t } from '../i18n';
+
+interface ConversationSummaryViewProps {
+  summary: ConversationSummary;
+  onExport: () => void;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export const ConversationSummaryView: React.FC<ConversationSummaryViewProps> = ({ summary, onExport }) => {
+  const { speakers, silences, responseLatency } = summary;
+
+  return (
+    <div className="w-full max-w-lg p-4 bg-slate-950/50 rounded-xl border border-slate-800 space-y-3 text-left">
+      <div className="flex justify-between items-center">
+        <span className="text-slate-400 text-xs font-mono uppercase tracking-widest">{t('summary.title')}</span>
+        <span className="text-slate-500 text-[10px] font-mono">{formatSeconds(summary.durationMs)}</span>
+      </div>
+
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-slate-500 text-[10px] tracking-wider">
+            <th className="text-left font-normal pb-1">{t('summary.who')}</th>
+            <th className="text-right font-normal pb-1">{t('summary.talk')}</th>
+            <th className="text-right font-normal pb-1">{t('summary.turns')}</th>
+            <th className="text-right font-normal pb-1">{t('summary.interruptions')}</th>
+            <th className="text-right font-normal pb-1">{t('summary.overlaps')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {speakers.map((speaker) => (
+            <tr key={speaker.id} className="text-slate-300 border-t border-slate-800">
+              <td className="py-1 text-cyan-300">{speaker.label}</td>
+              <td className="py-1 text-right">
+                {formatSeconds(speaker.talkTimeMs)} <span className="text-slate-500">({Math.round(speaker.talkShare * 100)}%)</span>
+              </td>
+              <td className="py-1 text-right">{speaker.turns}</td>
+              <td className="py-1 text-right">{speaker.interruptions}</td>
+              <td className="py-1 text-right">{speaker.overlaps}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-2 gap-3 text-xs font-mono">
+        <div className="p-2 rounded border border-slate-800">
+          <span className="block text-slate-500 text-[10px] tracking-wider">{t('summary.silences')}</span>
+          <span className="text-slate-300">
+            {silences.count} · {formatSeconds(silences.totalMs)} ({t('summary.longest', { duration: formatSeconds(silences.longestMs) })})
+          </span>
+        </div>
+        <div className="p-2 rounded border border-slate-800">
+          <span className="block text-slate-500 text-[10px] tracking-wider">{t('summary.latency')}</span>
+          <span className="text-slate-300">
+            {responseLatency
+              ? t('summary.latencyValue', { average: responseLatency.averageMs, min: responseLatency.minMs, max: responseLatency.maxMs })
+              : '—'}
+          </span>
+        </div>
+      </div>
+
+      <button
+        onClick={onExport}
+        className="w-full py-2 text-slate-400 hover:text-cyan-300 border border-slate-700 hover:border-cyan-700 rounded-lg text-xs tracking-wider transition-colors"
+      >
+        {t('summary.export')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { IceCandidateType, IceDiagnostics } from '../types';
+import { MessageKey, t } from '../i18n';
+
+interface IceDiagnosticsPanelProps {
+  signalingServer: string;
+  iceServerCount: number;
+  onRun: () => Promise<IceDiagnostics>;
+}
+
+const CANDIDATE_LABELS: Record<IceCandidateType, MessageKey> = {
+  host: 'ice.host',
+  srflx: 'ice.srflx',
+  prflx: 'ice.prflx',
+  relay: 'ice.relay',
+};
+
+export const IceDiagnosticsPanel: React.FC<IceDiagnosticsPanelProps> = ({ signalingServer, iceServerCount, onRun }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<IceDiagnostics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      setResult(await onRun());
+    } catch (e: any) {
+      setError(t('ice.failed', { message: e.message }));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="text-[10px] font-mono text-slate-500 hover:text-cyan-400 tracking-widest">
+        {t('ice.title').toUpperCase()}
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-sm p-4 bg-slate-950/70 border border-slate-700 rounded-lg text-left text-xs font-mono space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-slate-400 uppercase tracking-widest">{t('ice.title')}</span>
+        <button onClick={() => setIsOpen(false)} className="text-slate-500 hover:text-white">✕</button>
+      </div>
+      <div className="text-slate-500">
+        <div>{t('ice.signaling')} <span className="text-slate-300">{signalingServer}</span></div>
+        <div>{t('ice.iceServers')} <span className="text-slate-300">{iceServerCount > 0 ? iceServerCount : t('ice.defaultServers')}</span></div>
+      </div>
+
+      {result && (
+        <div className="space-y-1">
+          {(Object.keys(CANDIDATE_LABELS) as IceCandidateType[]).map((type) => (
+            <div key={type} className="flex justify-between">
+              <span className="text-slate-400">{t(CANDIDATE_LABELS[type])}</span>
+              <span className={result.counts[type] > 0 ? 'text-green-400' : 'text-slate-600'}>{result.counts[type]}</span>
+            </div>
+          ))}
+          <div className="text-slate-600 pt-1">
+            {t(result.complete ? 'ice.complete' : 'ice.timedOut', { ms: Math.round(result.durationMs) })}
+          </div>
+          {result.counts.relay === 0 && (
+            <div className="text-yellow-500">{t('ice.noRelay')}</div>
+          )}
+        </div>
+      )}
+
+      {error && <div className="text-red-400">{error}</div>}
+
+      <button
+        onClick={run}
+        disabled={isRunning}
+        className={`w-full py-2 bg-slate-800 hover:bg-slate-700 text-cyan-400 rounded ${isRunning ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isRunning ? t('ice.running') : t('ice.run')}
+      </button>
+    </div>
+  );
+};
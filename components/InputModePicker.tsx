@@ -0,0 +1,29 @@
+import React from 'react';
+import { CommanderInputMode } from '../types';
+import { MessageKey, t } from '../i18n';
+
+interface InputModePickerProps {
+  value: CommanderInputMode;
+  onChange: (mode: CommanderInputMode) => void;
+}
+
+const MODE_LABELS: Record<CommanderInputMode, MessageKey> = {
+  voice: 'menu.inputVoice',
+  mixed: 'menu.inputMixed',
+  text: 'menu.inputText',
+};
+
+export const InputModePicker: React.FC<InputModePickerProps> = ({ value, onChange }) => (
+  <div className="flex items-center justify-center gap-2 text-[10px] font-mono tracking-widest">
+    <span className="text-slate-500 uppercase">{t('menu.inputMode')}</span>
+    {(Object.keys(MODE_LABELS) as CommanderInputMode[]).map((mode) => (
+      <button
+        key={mode}
+        onClick={() => onChange(mode)}
+        className={`px-2 py-1 rounded border transition-colors ${value === mode ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+      >
+        {t(MODE_LABELS[mode])}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Locale } from '../types';
+import { LOCALES, t } from '../i18n';
+
+interface LanguageSwitcherProps {
+  value: Locale;
+  onChange: (locale: Locale) => void;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2 text-[10px] font-mono tracking-widest">
+    <span className="text-slate-500 uppercase">{t('menu.language')}</span>
+    {(Object.keys(LOCALES) as Locale[]).map((locale) => (
+      <button
+        key={locale}
+        onClick={() => onChange(locale)}
+        className={`px-2 py-1 rounded border transition-colors ${value === locale ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+      >
+        {LOCALES[locale].label}
+      </button>
+    ))}
+  </div>
+);
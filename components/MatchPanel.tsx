@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { MatchPhase, MatchRole, MatchScenario, MatchState } from '../types';
+import { MessageKey, t } from '../i18n';
+
+export const ROLE_LABELS: Record<MatchRole, MessageKey> = {
+  commander: 'match.commander',
+  diplomat: 'match.diplomat',
+};
+
+interface MatchPanelProps {
+  state: MatchState;
+  scenario: MatchScenario;
+  myId: string;
+  onReady: () => void;
+  onPropose: (amount: number) => void;
+  onConfirm: (proposalId: string) => void;
+  onWalkAway: () => void;
+}
+
+const formatSeconds = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const MatchPanel: React.FC<MatchPanelProps> = ({ state, scenario, myId, onReady, onPropose, onConfirm, onWalkAway }) => {
+  const [amount, setAmount] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const myRole = state.roles[myId];
+  const briefing = scenario.briefings[myRole];
+  const isReady = state.ready.includes(myId);
+
+  // Round timer display
+  useEffect(() => {
+    if (state.phase !== MatchPhase.NEGOTIATING) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [state.phase]);
+
+  const remainingMs = state.deadline ? state.deadline - now : 0;
+
+  const submitProposal = () => {
+    const value = Number(amount);
+    if (!amount || !Number.isFinite(value) || value < 0) return;
+    onPropose(Math.round(value));
+    setAmount('');
+  };
+
+  return (
+    <div className="w-full p-4 bg-slate-950/70 border border-yellow-700/50 rounded-xl text-left space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-yellow-300 font-bold">{scenario.title}</h3>
+          <p className="text-slate-400 text-xs">{scenario.setting}</p>
+        </div>
+        {state.phase === MatchPhase.NEGOTIATING && (
+          <span className={`font-mono text-xl font-bold ${remainingMs < 30000 ? 'text-red-400 animate-pulse' : 'text-yellow-300'}`}>
+            {formatSeconds(remainingMs)}
+          </span>
+        )}
+      </div>
+
+      {/* Private briefing */}
+      <div className="p-3 bg-slate-900 border border-slate-700 rounded text-sm space-y-1">
+        <div className="text-[10px] font-mono tracking-widest text-slate-500">{t('match.briefing', { role: t(ROLE_LABELS[myRole]).toUpperCase() })}</div>
+        <p className="text-slate-200">{briefing.objective}</p>
+        <p className="text-slate-400 text-xs font-mono">
+          {t('match.goal', { target: briefing.target, limit: briefing.limit, unit: scenario.unit })}
+        </p>
+      </div>
+
+      {state.phase === MatchPhase.BRIEFING && (
+        <button
+          onClick={onReady}
+          disabled={isReady}
+          className={`w-full py-2 rounded font-bold text-sm ${isReady ? 'bg-slate-800 text-slate-500' : 'bg-yellow-600 hover:bg-yellow-500 text-white'}`}
+        >
+          {isReady ? t('match.waitingOther') : t('match.ready')}
+        </button>
+      )}
+
+      {state.phase === MatchPhase.NEGOTIATING && (
+        <div className="space-y-2">
+          {state.proposal ? (
+            <div className="flex items-center justify-between p-2 border border-yellow-700 rounded">
+              <span className="text-sm text-yellow-200">
+                {state.proposal.by === myId ? t('match.yourProposal') : t('match.receivedProposal')}: <strong>{state.proposal.amount} {scenario.unit}</strong>
+              </span>
+              {state.proposal.by !== myId && (
+                <button onClick={() => onConfirm(state.proposal!.id)} className="px-3 py-1 bg-green-700 hover:bg-green-600 text-white text-xs font-bold rounded">
+                  {t('match.confirm')}
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="text-slate-500 text-xs font-mono">{t('match.noProposal')}</p>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              value={amount}
+              placeholder={t('match.amountPlaceholder', { unit: scenario.unit })}
+              onChange={(e) => setAmount(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') submitProposal(); }}
+              className="flex-1 bg-slate-950 border border-slate-700 px-3 py-2 text-sm text-white focus:border-yellow-500 outline-none rounded"
+            />
+            <button onClick={submitProposal} disabled={!amount} className="px-3 bg-yellow-700 hover:bg-yellow-600 disabled:opacity-40 text-white text-xs font-bold rounded">
+              {t('match.propose')}
+            </button>
+          </div>
+
+          <button onClick={onWalkAway} className="w-full py-1 text-red-400 hover:text-red-300 text-xs tracking-wider">
+            {t('match.walkAway')}
+          </button>
+        </div>
+      )}
+
+      {state.phase === MatchPhase.RESOLVED && (
+        <p className="text-center text-yellow-300 font-mono text-sm animate-pulse">{t('match.resolved')}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { MatchResult, MatchRole, MatchScenario, MatchState } from '../types';
+import { ROLE_LABELS } from './MatchPanel';
+import { MessageKey, t } from '../i18n';
+
+interface MatchResultViewProps {
+  state: MatchState;
+  scenario: MatchScenario;
+  myId: string;
+}
+
+const REASON_LABELS: Record<MatchResult['reason'], MessageKey> = {
+  agreement: 'match.reasonAgreement',
+  'walk-away': 'match.reasonWalkAway',
+  timeout: 'match.reasonTimeout',
+};
+
+export const MatchResultView: React.FC<MatchResultViewProps> = ({ state, scenario, myId }) => {
+  const result = state.result;
+  if (!result) return null;
+
+  const myRole = state.roles[myId];
+  const iWon = result.winners.includes(myRole);
+  const roles: MatchRole[] = ['commander', 'diplomat'];
+
+  return (
+    <div className="space-y-4 w-full max-w-lg">
+      <div className="space-y-1">
+        <h2 className={`text-3xl font-bold ${iWon ? 'text-green-400' : 'text-red-400'}`}>
+          {iWon ? t('match.won') : t('match.lost')}
+        </h2>
+        <p className="text-slate-400 text-sm">
+          {t(REASON_LABELS[result.reason])}
+          {result.deal && result.amount !== null && t('match.dealAmount', { amount: result.amount, unit: scenario.unit })}.
+        </p>
+      </div>
+
+      {/* Both hidden objectives revealed */}
+      <div className="grid grid-cols-2 gap-3 text-left">
+        {roles.map((role) => {
+          const briefing = scenario.briefings[role];
+          const won = result.winners.includes(role);
+          return (
+            <div key={role} className={`p-3 rounded-lg border text-xs space-y-1 ${won ? 'border-green-700 bg-green-950/30' : 'border-red-900 bg-red-950/20'}`}>
+              <div className="font-mono tracking-widest text-slate-400">
+                {t(ROLE_LABELS[role]).toUpperCase()}{role === myRole ? t('match.youSuffix') : ''}
+              </div>
+              <p className="text-slate-200">{briefing.objective}</p>
+              <p className="font-mono text-slate-400">{t('match.targetAndLimit', { target: briefing.target, limit: briefing.limit, unit: scenario.unit })}</p>
+              <p className={`font-bold ${won ? 'text-green-400' : 'text-red-400'}`}>{won ? t('match.objectiveMet') : t('match.objectiveMissed')}</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
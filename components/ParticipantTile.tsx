@@ -0,0 +1,56 @@
+import React, { useEffect, useRef } from 'react';
+import { Visualizer } from './Visualizer';
+import { ConnectionQualityIndicator } from './ConnectionQualityIndicator';
+import { applySinkId } from '../utils/audioDevices';
+import { ConnectionQuality, VisualizerStyle } from '../types';
+
+interface ParticipantTileProps {
+  peerId: string;
+  stream: MediaStream;
+  analyser: () => AnalyserNode | null;
+  variant?: VisualizerStyle;
+  // Speaker to play on; null = system default
+  sinkId?: string | null;
+  // Network quality of the call with this pilot
+  quality?: ConnectionQuality | null;
+  onPlaybackBlocked?: () => void;
+}
+
+// One remote pilot in the fleet channel: plays their audio and visualizes it
+export const ParticipantTile: React.FC<ParticipantTileProps> = ({ peerId, stream, analyser, variant, sinkId = null, quality = null, onPlaybackBlocked }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.srcObject = stream;
+    // Explicit play attempt
+    const playPromise = audio.play();
+    if (playPromise !== undefined) {
+      playPromise.catch(error => {
+        console.error("Auto-play prevented:", error);
+        onPlaybackBlocked?.();
+      });
+    }
+
+    return () => {
+      audio.srcObject = null;
+    };
+  }, [stream]);
+
+  useEffect(() => {
+    if (audioRef.current) applySinkId(audioRef.current, sinkId);
+  }, [sinkId]);
+
+  return (
+    <div className="relative">
+      {/* Important: autoPlay */}
+      <audio ref={audioRef} autoPlay className="hidden" />
+      <div className="absolute top-0 right-0">
+        <ConnectionQualityIndicator quality={quality} />
+      </div>
+      <Visualizer analyser={analyser} color="#22c55e" label={peerId} variant={variant} />
+    </div>
+  );
+};
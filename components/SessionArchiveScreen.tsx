@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { ArchivedSession, ArchivedSessionSummary } from '../types';
+import { SessionArchive } from '../services/sessionArchive';
+import { SessionReplayPlayer } from './SessionReplayPlayer';
+import { getLocale, t } from '../i18n';
+
+interface SessionArchiveScreenProps {
+  archive: SessionArchive;
+  onBack: () => void;
+}
+
+// Sessions that can be replayed side by side
+const MAX_COMPARED = 2;
+
+const formatDuration = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}m${String(total % 60).padStart(2, '0')}s`;
+};
+
+export const SessionArchiveScreen: React.FC<SessionArchiveScreenProps> = ({ archive, onBack }) => {
+  const [sessions, setSessions] = useState<ArchivedSessionSummary[]>([]);
+  const [selected, setSelected] = useState<ArchivedSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    archive.listSessions()
+      .then(setSessions)
+      .catch((e: any) => setError(t('archive.openFailed', { message: e.message })))
+      .finally(() => setIsLoading(false));
+  }, [archive]);
+
+  const toggleSession = async (id: string) => {
+    if (selected.some(s => s.id === id)) {
+      setSelected(prev => prev.filter(s => s.id !== id));
+      return;
+    }
+    try {
+      const session = await archive.loadSession(id);
+      if (!session) return;
+      // Comparing a third session replaces the oldest selection
+      setSelected(prev => [...prev, session].slice(-MAX_COMPARED));
+    } catch (e: any) {
+      setError(t('archive.loadFailed', { message: e.message }));
+    }
+  };
+
+  const deleteSession = async (id: string) => {
+    try {
+      await archive.deleteSession(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      setSelected(prev => prev.filter(s => s.id !== id));
+    } catch (e: any) {
+      setError(t('archive.deleteFailed', { message: e.message }));
+    }
+  };
+
+  return (
+    <div className="w-full space-y-6 animate-fade-in">
+      <div className="text-center space-y-2">
+        <h2 className="text-white text-xl font-bold">{t('archive.title')}</h2>
+        <p className="text-slate-400 text-sm">{t('archive.subtitle', { max: MAX_COMPARED })}</p>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-2 text-left">
+        {isLoading && <p className="text-slate-500 text-xs font-mono text-center">{t('archive.loading')}</p>}
+        {!isLoading && sessions.length === 0 && (
+          <p className="text-slate-600 text-xs font-mono text-center">{t('archive.empty')}</p>
+        )}
+        {sessions.map((session) => {
+          const isSelected = selected.some(s => s.id === session.id);
+          return (
+            <div
+              key={session.id}
+              className={`flex items-center gap-3 p-3 rounded-lg border ${isSelected ? 'border-cyan-500 bg-cyan-950/30' : 'border-slate-800 bg-slate-950/50'}`}
+            >
+              <button onClick={() => toggleSession(session.id)} className="flex-1 text-left">
+                <span className="block text-purple-300 font-bold text-sm">{session.personaName}</span>
+                <span className="text-slate-500 text-[10px] font-mono">
+                  {new Date(session.startedAt).toLocaleString(getLocale())} · {formatDuration(session.durationMs)}
+                  {session.outcome && ` · ${session.outcome.result === 'victory' ? t('archive.victory') : t('archive.defeat')}`}
+                </span>
+              </button>
+              <button onClick={() => deleteSession(session.id)} className="text-red-400 hover:text-red-300 text-[10px] tracking-wider">
+                {t('archive.delete')}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <div className="text-red-400 text-xs">{error}</div>}
+
+      {selected.length > 0 && (
+        <div className={`grid gap-4 ${selected.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {selected.map(session => <SessionReplayPlayer key={session.id} session={session} />)}
+        </div>
+      )}
+
+      <div className="text-center">
+        <button onClick={onBack} className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-white text-sm transition-colors">
+          {t('app.backToMenu')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArchivedSession } from '../types';
+import { buildReplay, levelAt, ReplayTracks } from '../services/sessionReplay';
+import { Visualizer } from './Visualizer';
+import { TranscriptPanel } from './TranscriptPanel';
+import { getLocale, t } from '../i18n';
+
+interface SessionReplayPlayerProps {
+  session: ArchivedSession;
+}
+
+const formatTime = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Plays one archived session. The visualizers follow the levels stored during
+// the session instead of analysing the replayed audio.
+export const SessionReplayPlayer: React.FC<SessionReplayPlayerProps> = ({ session }) => {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  // Context time at which playback (re)started, and the session position it started from
+  const startRef = useRef({ ctxTime: 0, positionMs: 0 });
+  const [tracks, setTracks] = useState<ReplayTracks | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+
+  useEffect(() => {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    ctxRef.current = ctx;
+    setTracks(buildReplay(session, ctx));
+    setPositionMs(0);
+
+    return () => {
+      stopSources();
+      ctxRef.current = null;
+      ctx.close();
+    };
+  }, [session]);
+
+  // Playhead
+  useEffect(() => {
+    if (!isPlaying || !tracks) return;
+    const interval = window.setInterval(() => {
+      const ctx = ctxRef.current;
+      if (!ctx) return;
+      const position = startRef.current.positionMs + (ctx.currentTime - startRef.current.ctxTime) * 1000;
+      if (position >= tracks.durationMs) {
+        stopSources();
+        setIsPlaying(false);
+        setPositionMs(tracks.durationMs);
+        return;
+      }
+      setPositionMs(position);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [isPlaying, tracks]);
+
+  const stopSources = () => {
+    sourcesRef.current.forEach((source) => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) {
+        // Never started
+      }
+      source.disconnect();
+    });
+    sourcesRef.current = [];
+  };
+
+  const startSources = (fromMs: number) => {
+    const ctx = ctxRef.current;
+    if (!ctx || !tracks) return;
+    stopSources();
+    ctx.resume();
+
+    [tracks.mic, tracks.ai].forEach((buffer) => {
+      if (!buffer) return;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start(0, fromMs / 1000);
+      sourcesRef.current.push(source);
+    });
+    startRef.current = { ctxTime: ctx.currentTime, positionMs: fromMs };
+  };
+
+  const togglePlay = () => {
+    if (!tracks) return;
+    if (isPlaying) {
+      stopSources();
+      setIsPlaying(false);
+      return;
+    }
+    const from = positionMs >= tracks.durationMs ? 0 : positionMs;
+    setPositionMs(from);
+    startSources(from);
+    setIsPlaying(true);
+  };
+
+  const seek = (ms: number) => {
+    setPositionMs(ms);
+    if (isPlaying) startSources(ms);
+  };
+
+  const level = tracks ? levelAt(tracks.levels, positionMs) : null;
+  const transcript = session.transcript.filter(entry => entry.atMs <= positionMs);
+
+  return (
+    <div className="w-full space-y-3 p-4 bg-slate-950/50 rounded-xl border border-slate-800">
+      <div className="flex justify-between items-baseline text-left">
+        <div>
+          <span className="block text-purple-300 font-bold text-sm">{session.personaName}</span>
+          <span className="text-slate-500 text-[10px] font-mono">{new Date(session.startedAt).toLocaleString(getLocale())}</span>
+        </div>
+        {session.outcome && (
+          <span className={`text-[10px] font-mono font-bold ${session.outcome.result === 'victory' ? 'text-green-400' : 'text-red-400'}`}>
+            {t(session.outcome.result === 'victory' ? 'gameOver.victoryTitle' : 'gameOver.defeatTitle').toUpperCase()}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Visualizer level={level?.input ?? 0} color="#06b6d4" label={t('replay.pilot')} />
+        <Visualizer level={level?.output ?? 0} color="#a855f7" label={session.personaName} />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          disabled={!tracks}
+          className="w-20 py-1 bg-cyan-700 hover:bg-cyan-600 disabled:opacity-40 text-white text-xs font-bold rounded"
+        >
+          {isPlaying ? t('replay.pause') : t('replay.play')}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={tracks?.durationMs ?? 0}
+          step={100}
+          value={positionMs}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 accent-cyan-500"
+        />
+        <span className="text-slate-400 text-[10px] font-mono whitespace-nowrap">
+          {formatTime(positionMs)} / {formatTime(tracks?.durationMs ?? session.durationMs)}
+        </span>
+      </div>
+
+      <TranscriptPanel messages={transcript} aiLabel={session.personaName} />
+    </div>
+  );
+};
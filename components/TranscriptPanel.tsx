@@ -0,0 +1,47 @@
+import React, { useEffect, useRef } from 'react';
+import { MessageLog } from '../types';
+import { t } from '../i18n';
+
+interface TranscriptPanelProps {
+  messages: MessageLog[];
+  aiLabel: string;
+}
+
+export const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ messages, aiLabel }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  return (
+    <div
+      ref={scrollRef}
+      className="w-full h-40 overflow-y-auto p-4 bg-slate-950/50 rounded-xl border border-slate-800 space-y-3 text-left"
+    >
+      {messages.length === 0 ? (
+        <p className="text-slate-600 text-xs font-mono text-center">{t('transcript.waiting')}</p>
+      ) : (
+        messages.map((msg) => (
+          <div key={msg.id} className={`flex flex-col ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
+            <span className="text-[10px] font-mono uppercase tracking-widest text-slate-500">
+              {msg.sender === 'user' ? msg.speaker ?? t('transcript.you') : aiLabel}
+            </span>
+            <p
+              className={`max-w-[85%] px-3 py-2 rounded-lg text-sm ${
+                msg.sender === 'user'
+                  ? 'bg-cyan-900/40 text-cyan-100 border border-cyan-800/50'
+                  : 'bg-purple-900/40 text-purple-100 border border-purple-800/50'
+              }`}
+            >
+              {msg.text}
+            </p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -1,35 +1,162 @@
 import React, { useEffect, useRef } from 'react';
+import { VisualizerStyle } from '../types';
 
 interface VisualizerProps {
-  level: number; // 0 to 255 roughly
-  color: string;
+  // Read on every frame, so the graph can be built (or rebuilt) after mounting
+  analyser?: () => AnalyserNode | null;
+  // Used when there is no analyser, e.g. replays driven by stored levels (0 to 255 roughly)
+  level?: number;
+  color: string; // CSS color
   label: string;
+  variant?: VisualizerStyle;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ level, color, label }) => {
-  const bars = 5;
-  // Normalize level 0-1
-  const normalized = Math.min(1, level / 50); 
-  
+const BAR_COUNT = 24;
+// Voices sit in the lower half of the spectrum; the rest stays nearly empty
+const SPECTRUM_FRACTION = 0.5;
+// Speech rarely reaches full scale, so the waveform is drawn amplified
+const WAVEFORM_GAIN = 3;
+
+// Frame data normalized so every style can draw analyser and level input alike
+interface FrameData {
+  spectrum: Float32Array; // BAR_COUNT values, 0 to 1
+  waveform: Float32Array; // samples, -1 to 1
+}
+
+function readAnalyser(analyser: AnalyserNode, frame: FrameData, bytes: Uint8Array<ArrayBuffer>) {
+  analyser.getByteFrequencyData(bytes);
+  const binsPerBar = Math.max(1, Math.floor(bytes.length * SPECTRUM_FRACTION / BAR_COUNT));
+  for (let bar = 0; bar < BAR_COUNT; bar++) {
+    let sum = 0;
+    for (let i = 0; i < binsPerBar; i++) sum += bytes[bar * binsPerBar + i];
+    frame.spectrum[bar] = sum / binsPerBar / 255;
+  }
+  analyser.getFloatTimeDomainData(frame.waveform as Float32Array<ArrayBuffer>);
+}
+
+// Without real audio data: a falling spectrum and a sine wave scaled by the level
+function synthesizeFromLevel(level: number, time: number, frame: FrameData) {
+  const normalized = Math.min(1, level / 50);
+  for (let bar = 0; bar < BAR_COUNT; bar++) {
+    frame.spectrum[bar] = normalized * (1 - 0.7 * bar / BAR_COUNT);
+  }
+  const n = frame.waveform.length;
+  for (let i = 0; i < n; i++) {
+    frame.waveform[i] = normalized / WAVEFORM_GAIN * Math.sin(2 * Math.PI * (4 * i / n) + time / 120);
+  }
+}
+
+function drawBars(ctx: CanvasRenderingContext2D, width: number, height: number, frame: FrameData) {
+  const slot = width / BAR_COUNT;
+  const barWidth = slot * 0.7;
+  frame.spectrum.forEach((value, bar) => {
+    const barHeight = Math.max(2, value * height);
+    ctx.globalAlpha = value > 0.1 ? 1 : 0.3;
+    ctx.fillRect(bar * slot + (slot - barWidth) / 2, height - barHeight, barWidth, barHeight);
+  });
+  ctx.globalAlpha = 1;
+}
+
+function drawOscilloscope(ctx: CanvasRenderingContext2D, width: number, height: number, frame: FrameData) {
+  const n = frame.waveform.length;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  for (let i = 0; i < n; i++) {
+    const sample = Math.max(-1, Math.min(1, frame.waveform[i] * WAVEFORM_GAIN));
+    const x = i / (n - 1) * width;
+    const y = height / 2 - sample * height / 2;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+}
+
+function drawRadial(ctx: CanvasRenderingContext2D, width: number, height: number, frame: FrameData) {
+  const cx = width / 2;
+  const cy = height / 2;
+  const inner = Math.min(width, height) * 0.2;
+  const maxLength = Math.min(width, height) / 2 - inner;
+
+  ctx.globalAlpha = 0.3;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(cx, cy, inner, 0, 2 * Math.PI);
+  ctx.stroke();
+  ctx.globalAlpha = 1;
+
+  // Mirrored so the shape stays symmetric: low frequencies at the top
+  ctx.lineWidth = 3;
+  ctx.lineCap = 'round';
+  for (let i = 0; i < BAR_COUNT * 2; i++) {
+    const value = frame.spectrum[i < BAR_COUNT ? i : BAR_COUNT * 2 - 1 - i];
+    const angle = i / (BAR_COUNT * 2) * 2 * Math.PI - Math.PI / 2;
+    const length = Math.max(1, value * maxLength);
+    ctx.beginPath();
+    ctx.moveTo(cx + Math.cos(angle) * inner, cy + Math.sin(angle) * inner);
+    ctx.lineTo(cx + Math.cos(angle) * (inner + length), cy + Math.sin(angle) * (inner + length));
+    ctx.stroke();
+  }
+}
+
+const DRAWERS: Record<VisualizerStyle, typeof drawBars> = {
+  bars: drawBars,
+  oscilloscope: drawOscilloscope,
+  radial: drawRadial,
+};
+
+// Draws on a canvas from requestAnimationFrame. Props are read through refs, so
+// new levels or analysers never restart the loop and the parent never has to
+// re-render for the animation.
+export const Visualizer: React.FC<VisualizerProps> = ({ analyser, level = 0, color, label, variant = 'bars' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const propsRef = useRef({ analyser, level, color, variant });
+  propsRef.current = { analyser, level, color, variant };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const frame: FrameData = { spectrum: new Float32Array(BAR_COUNT), waveform: new Float32Array(256) };
+    let bytes = new Uint8Array(0);
+    let animationFrame = 0;
+
+    const render = (time: number) => {
+      animationFrame = requestAnimationFrame(render);
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+      }
+
+      const { analyser: getAnalyser, level, color, variant } = propsRef.current;
+      const node = getAnalyser?.() ?? null;
+      if (node) {
+        if (bytes.length !== node.frequencyBinCount) bytes = new Uint8Array(node.frequencyBinCount);
+        if (frame.waveform.length !== node.fftSize) frame.waveform = new Float32Array(node.fftSize);
+        readAnalyser(node, frame, bytes);
+      } else {
+        synthesizeFromLevel(level, time, frame);
+      }
+
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = color;
+      ctx.strokeStyle = color;
+      DRAWERS[variant](ctx, width, height, frame);
+    };
+    animationFrame = requestAnimationFrame(render);
+
+    return () => cancelAnimationFrame(animationFrame);
+  }, []);
+
   return (
-    <div className="flex flex-col items-center gap-2">
-      <div className="h-24 flex items-end gap-1">
-        {Array.from({ length: bars }).map((_, i) => {
-          // Add some randomness and height based on volume
-          const height = Math.max(10, normalized * 100 * (0.8 + Math.random() * 0.4));
-          return (
-            <div
-              key={i}
-              className={`w-4 rounded-t-sm transition-all duration-75 ${color}`}
-              style={{ 
-                height: `${height}%`,
-                opacity: normalized > 0.1 ? 1 : 0.3
-              }}
-            />
-          );
-        })}
-      </div>
+    <div className="flex flex-col items-center gap-2 w-full">
+      <canvas ref={canvasRef} className="w-full max-w-[160px] h-24" />
       <span className="text-xs font-mono uppercase tracking-widest text-gray-400">{label}</span>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { VisualizerStyle } from '../types';
+import { MessageKey, t } from '../i18n';
+
+interface VisualizerStylePickerProps {
+  value: VisualizerStyle;
+  onChange: (style: VisualizerStyle) => void;
+}
+
+const STYLE_LABELS: Record<VisualizerStyle, MessageKey> = {
+  bars: 'visualizer.bars',
+  oscilloscope: 'visualizer.oscilloscope',
+  radial: 'visualizer.radial',
+};
+
+export const VisualizerStylePicker: React.FC<VisualizerStylePickerProps> = ({ value, onChange }) => (
+  <div className="flex gap-1 text-[10px] font-mono tracking-widest">
+    {(Object.keys(STYLE_LABELS) as VisualizerStyle[]).map((style) => (
+      <button
+        key={style}
+        onClick={() => onChange(style)}
+        className={`px-2 py-1 rounded border transition-colors ${value === style ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+      >
+        {t(STYLE_LABELS[style])}
+      </button>
+    ))}
+  </div>
+);
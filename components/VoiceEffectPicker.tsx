@@ -0,0 +1,31 @@
+import React from 'react';
+import { VoiceEffect } from '../types';
+import { MessageKey, t } from '../i18n';
+
+interface VoiceEffectPickerProps {
+  value: VoiceEffect;
+  onChange: (effect: VoiceEffect) => void;
+}
+
+const EFFECT_LABELS: Record<VoiceEffect, MessageKey> = {
+  none: 'voice.none',
+  alien: 'voice.alien',
+  robot: 'voice.robot',
+  radio: 'voice.radio',
+  swarm: 'voice.swarm',
+};
+
+export const VoiceEffectPicker: React.FC<VoiceEffectPickerProps> = ({ value, onChange }) => (
+  <div className="flex flex-wrap items-center justify-center gap-2 text-[10px] font-mono tracking-widest">
+    <span className="text-slate-500 uppercase">{t('voice.effect')}</span>
+    {(Object.keys(EFFECT_LABELS) as VoiceEffect[]).map((effect) => (
+      <button
+        key={effect}
+        onClick={() => onChange(effect)}
+        className={`px-2 py-1 rounded border transition-colors ${value === effect ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}
+      >
+        {t(EFFECT_LABELS[effect])}
+      </button>
+    ))}
+  </div>
+);
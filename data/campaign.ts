@@ -0,0 +1,70 @@
+import { CampaignSector } from '../types';
+import { getLocale } from '../i18n';
+
+// Sectors of the campaign, played in order. Each one is unlocked by winning
+// the previous sector; a lost sector can be retried at a reputation cost.
+export const CAMPAIGN_SECTORS: CampaignSector[] = [
+  {
+    id: 'fronteira-xylar',
+    name: 'Fronteira de Xylar',
+    description: 'Um posto avançado na borda da galáxia conhecida. O Capitão Xylar testa os recém-chegados.',
+    personaId: 'xylar',
+    difficulty: 'easy',
+    reward: 50,
+    reputationGain: 10,
+    reputationLoss: 5,
+    translations: {
+      en: { name: "Xylar's Frontier", description: 'An outpost on the edge of the known galaxy. Captain Xylar tests the newcomers.' },
+      es: { name: 'Frontera de Xylar', description: 'Un puesto de avanzada en el borde de la galaxia conocida. El Capitán Xylar pone a prueba a los recién llegados.' },
+    },
+  },
+  {
+    id: 'colmeia-vessh',
+    name: 'Colmeia de Vessh',
+    description: 'O caminho mais curto atravessa o berçário da colmeia. A Matriarca não gosta de visitas.',
+    personaId: 'vessh',
+    difficulty: 'normal',
+    reward: 80,
+    reputationGain: 15,
+    reputationLoss: 10,
+    translations: {
+      en: { name: 'Vessh Hive', description: "The shortest route crosses the hive's nursery. The Matriarch does not like visitors." },
+      es: { name: 'Colmena de Vessh', description: 'La ruta más corta atraviesa la guardería de la colmena. A la Matriarca no le gustan las visitas.' },
+    },
+  },
+  {
+    id: 'estacao-k7',
+    name: 'Estação Abandonada',
+    description: 'Uma sentinela robótica guarda a única rota de reabastecimento. Os protocolos não perdoam.',
+    personaId: 'k7',
+    difficulty: 'hard',
+    reward: 120,
+    reputationGain: 20,
+    reputationLoss: 10,
+    translations: {
+      en: { name: 'Abandoned Station', description: 'A robotic sentinel guards the only refueling route. Its protocols are unforgiving.' },
+      es: { name: 'Estación Abandonada', description: 'Un centinela robótico vigila la única ruta de reabastecimiento. Los protocolos no perdonan.' },
+    },
+  },
+  {
+    id: 'retorno-xylar',
+    name: 'Retorno a Xylar',
+    description: 'A volta para casa passa de novo pelo setor de Xylar. Ele se lembra de você.',
+    personaId: 'xylar',
+    difficulty: 'hard',
+    reward: 200,
+    reputationGain: 25,
+    reputationLoss: 15,
+    translations: {
+      en: { name: 'Return to Xylar', description: "The way home runs through Xylar's sector again. He remembers you." },
+      es: { name: 'Regreso a Xylar', description: 'El camino a casa vuelve a pasar por el sector de Xylar. Él te recuerda.' },
+    },
+  },
+];
+
+// The sector with its name and description in the UI language, for display;
+// the commander's campaign briefing keeps the pt-BR fields
+export function localizeSector(sector: CampaignSector): CampaignSector {
+  const text = sector.translations?.[getLocale()];
+  return text ? { ...sector, ...text } : sector;
+}
@@ -0,0 +1,133 @@
+import { MatchScenario } from '../types';
+import { getLocale } from '../i18n';
+
+// Scenarios for the human-vs-human negotiation match. Each role only sees its
+// own briefing until the match ends. A deal is possible whenever the
+// commander's limit is not above the diplomat's limit.
+export const MATCH_SCENARIOS: MatchScenario[] = [
+  {
+    id: 'nebula-toll',
+    title: 'Pedágio da Nebulosa',
+    setting: 'Um cargueiro diplomático precisa cruzar a Nebulosa de Kessar, controlada por uma frota alienígena que cobra pedágio.',
+    unit: 'créditos',
+    roundSeconds: 180,
+    briefings: {
+      commander: {
+        objective: 'Sua frota precisa de combustível para o inverno. Cobre o maior pedágio possível, mas não deixe a nave passar por menos que seu limite.',
+        limit: 400,
+        target: 900,
+      },
+      diplomat: {
+        objective: 'O orçamento da missão é apertado. Consiga a passagem pagando o mínimo possível, sem ultrapassar seu limite.',
+        limit: 700,
+        target: 300,
+      },
+    },
+    translations: {
+      en: {
+        title: 'Nebula Toll',
+        setting: 'A diplomatic freighter must cross the Kessar Nebula, held by an alien fleet that charges a toll.',
+        unit: 'credits',
+        commanderObjective: 'Your fleet needs fuel for the winter. Charge the highest toll you can, but do not let the ship through for less than your limit.',
+        diplomatObjective: 'The mission budget is tight. Get passage for as little as possible, without going over your limit.',
+      },
+      es: {
+        title: 'Peaje de la Nebulosa',
+        setting: 'Un carguero diplomático debe cruzar la Nebulosa de Kessar, controlada por una flota alienígena que cobra peaje.',
+        unit: 'créditos',
+        commanderObjective: 'Tu flota necesita combustible para el invierno. Cobra el mayor peaje posible, pero no dejes pasar la nave por menos de tu límite.',
+        diplomatObjective: 'El presupuesto de la misión es ajustado. Consigue el paso pagando lo mínimo posible, sin superar tu límite.',
+      },
+    },
+  },
+  {
+    id: 'relic-cargo',
+    title: 'Carga de Relíquias',
+    setting: 'A nave humana transporta relíquias sagradas para a frota alienígena. O comandante exige uma taxa de inspeção para liberar a doca.',
+    unit: 'cristais',
+    roundSeconds: 150,
+    briefings: {
+      commander: {
+        objective: 'O conselho exige uma taxa alta para compensar os riscos da inspeção. Não aceite menos que seu limite.',
+        limit: 60,
+        target: 120,
+      },
+      diplomat: {
+        objective: 'As relíquias precisam chegar hoje. Pague a taxa, mas o tesouro da Terra não cobre valores acima do seu limite.',
+        limit: 90,
+        target: 40,
+      },
+    },
+    translations: {
+      en: {
+        title: 'Relic Cargo',
+        setting: 'The human ship carries sacred relics for the alien fleet. The commander demands an inspection fee to release the dock.',
+        unit: 'crystals',
+        commanderObjective: 'The council demands a high fee to cover the risks of the inspection. Do not accept less than your limit.',
+        diplomatObjective: 'The relics must arrive today. Pay the fee, but the Earth treasury does not cover amounts above your limit.',
+      },
+      es: {
+        title: 'Carga de Reliquias',
+        setting: 'La nave humana transporta reliquias sagradas para la flota alienígena. El comandante exige una tasa de inspección para liberar el muelle.',
+        unit: 'cristales',
+        commanderObjective: 'El consejo exige una tasa alta para compensar los riesgos de la inspección. No aceptes menos de tu límite.',
+        diplomatObjective: 'Las reliquias deben llegar hoy. Paga la tasa, pero el tesoro de la Tierra no cubre montos por encima de tu límite.',
+      },
+    },
+  },
+  {
+    id: 'blockade',
+    title: 'Bloqueio de Orion',
+    setting: 'Um bloqueio alienígena impede a passagem de naves de resgate humanas pelo Cinturão de Orion.',
+    unit: 'toneladas de minério',
+    roundSeconds: 200,
+    briefings: {
+      commander: {
+        objective: 'Seus superiores querem um tributo em minério para abrir o bloqueio. Abaixo do seu limite, é melhor manter o bloqueio.',
+        limit: 250,
+        target: 500,
+      },
+      diplomat: {
+        objective: 'Vidas dependem do resgate, mas a colônia só pode ceder minério até o seu limite.',
+        limit: 300,
+        target: 150,
+      },
+    },
+    translations: {
+      en: {
+        title: 'Orion Blockade',
+        setting: 'An alien blockade keeps human rescue ships from crossing the Orion Belt.',
+        unit: 'tons of ore',
+        commanderObjective: 'Your superiors want a tribute in ore to lift the blockade. Below your limit, keeping the blockade is better.',
+        diplomatObjective: 'Lives depend on the rescue, but the colony can only give up ore up to your limit.',
+      },
+      es: {
+        title: 'Bloqueo de Orión',
+        setting: 'Un bloqueo alienígena impide el paso de las naves de rescate humanas por el Cinturón de Orión.',
+        unit: 'toneladas de mineral',
+        commanderObjective: 'Tus superiores quieren un tributo en mineral para levantar el bloqueo. Por debajo de tu límite, es mejor mantener el bloqueo.',
+        diplomatObjective: 'Hay vidas que dependen del rescate, pero la colonia solo puede ceder mineral hasta tu límite.',
+      },
+    },
+  },
+];
+
+export function getMatchScenario(id: string): MatchScenario | undefined {
+  return MATCH_SCENARIOS.find(s => s.id === id);
+}
+
+// The scenario with its title, setting, unit and objectives in the UI language
+export function localizeScenario(scenario: MatchScenario): MatchScenario {
+  const text = scenario.translations?.[getLocale()];
+  if (!text) return scenario;
+  return {
+    ...scenario,
+    title: text.title,
+    setting: text.setting,
+    unit: text.unit,
+    briefings: {
+      commander: { ...scenario.briefings.commander, objective: text.commanderObjective },
+      diplomat: { ...scenario.briefings.diplomat, objective: text.diplomatObjective },
+    },
+  };
+}
@@ -0,0 +1,254 @@
+import { MessageKey } from './pt-BR';
+
+export const EN: Record<MessageKey, string> = {
+  'app.title': 'UNIVERSAL COMMUNICATOR',
+  'app.modeAi': 'MODE: AI',
+  'app.modeP2p': 'MODE: HUMAN',
+  'app.offline': 'OFFLINE',
+  'app.pilot': 'Pilot {id}',
+  'app.backToMenu': 'Back to Menu',
+
+  'menu.title': 'Select the Frequency',
+  'menu.subtitle': 'Choose who you want to open communications with.',
+  'menu.commanders': 'Commanders (AI)',
+  'menu.singleplayer': 'SINGLEPLAYER',
+  'menu.p2pTitle': 'Secure Channel (Human)',
+  'menu.p2pBadge': 'ONLINE P2P',
+  'menu.p2pDescription': 'Talk to another human player over real-time WebRTC communication.',
+  'menu.archive': 'SESSION ARCHIVE (REPLAY)',
+  'menu.record': 'Record the session (audio + transcript) to export at the end',
+  'menu.pushToTalk': 'Push to talk (hold SPACE) with the commanders',
+  'menu.language': 'Language',
+  'menu.inputMode': 'Input',
+  'menu.inputVoice': 'VOICE',
+  'menu.inputMixed': 'VOICE + TEXT',
+  'menu.inputText': 'TEXT ONLY',
+  'menu.textReplies': 'Commanders reply in text (instead of voice)',
+
+  'ai.victory': ':: SAFE PASSAGE GRANTED ::',
+  'ai.defeat': ':: ALERT: WEAPONS ARMED ::',
+  'ai.reconnecting': 'SIGNAL LOST — RECONNECTING...',
+  'ai.connecting': 'CONNECTING TO GEMINI...',
+  'ai.connected': ':: NEURAL LINK ESTABLISHED ::',
+  'ai.yourVoice': 'Your Voice',
+  'ai.localSpeaker': 'Diplomat',
+  'ai.talking': 'TRANSMITTING...',
+  'ai.holdToTalk': 'HOLD TO TALK',
+  'ai.muted': 'MICROPHONE MUTED',
+  'ai.mute': 'MUTE',
+  'ai.end': 'END',
+  'ai.micUnavailable': 'Microphone unavailable — type your messages.',
+  'ai.textPlaceholder': 'Type your message to the commander...',
+  'ai.send': 'SEND',
+
+  'p2p.yourId': 'Your Communicator ID',
+  'p2p.shareId': 'Share this code with another pilot.',
+  'p2p.targetPlaceholder': 'ENTER THE TARGET ID',
+  'p2p.connecting': 'CONNECTING...',
+  'p2p.startCall': 'START CALL',
+  'p2p.incomingCall': 'INCOMING CALL FROM: {id}',
+  'p2p.answer': 'ANSWER',
+  'p2p.reject': 'DECLINE',
+  'p2p.calling': 'CALLING {id}...',
+  'p2p.cancel': 'CANCEL',
+  'p2p.you': 'YOU',
+  'p2p.commanderVia': 'via {id}',
+  'p2p.invitePlaceholder': 'INVITE PILOT',
+  'p2p.add': 'ADD',
+  'p2p.summonCommander': 'SUMMON COMMANDER',
+  'p2p.commanderInChannel': ':: COMMANDER ON THE CHANNEL ::',
+  'p2p.connectingCommander': 'CONNECTING TO THE COMMANDER...',
+  'p2p.dismiss': 'DISMISS',
+  'p2p.startMatch': 'START NEGOTIATION GAME',
+  'p2p.hangUp': 'HANG UP',
+  'p2p.back': 'BACK',
+
+  'voice.effect': 'Voice',
+  'voice.none': 'NATURAL',
+  'voice.alien': 'ALIEN',
+  'voice.robot': 'ROBOT',
+  'voice.radio': 'RADIO',
+  'voice.swarm': 'SWARM',
+  'voice.monitor': 'Hear my own voice (use headphones)',
+
+  'callEnd.remoteHangup': '{pilot} hung up.',
+  'callEnd.rejected': '{pilot} declined the call.',
+  'callEnd.busy': '{pilot} is busy in another call.',
+  'callEnd.noAnswer': '{pilot} did not answer.',
+  'callEnd.cancelled': '{pilot} gave up on the call.',
+  'callEnd.unavailable': '{pilot} is not online (ID not found).',
+  'callEnd.connectionLost': '{pilot} lost the connection.',
+  'callEnd.failed': '{pilot} could not be connected.',
+
+  'gameOver.victoryTitle': 'Safe Passage Granted',
+  'gameOver.defeatTitle': 'Ship Destroyed',
+  'gameOver.victoryText': 'You won the negotiation.',
+  'gameOver.defeatText': 'You lost the negotiation.',
+  'gameOver.sessionEnded': 'Session Ended',
+  'gameOver.exportRecording': 'EXPORT RECORDING (WAV + JSON)',
+
+  'recording.localChannel': 'Local pilot microphone',
+  'recording.commanderChannel': 'Commander voice (AI)',
+  'recording.fleetChannel': 'Remote pilots and the commander, if present',
+
+  'errors.unknown': 'Unknown error.',
+  'errors.audioDevice': 'Could not switch the audio device: {message}',
+  'errors.aiConnect': 'Could not connect to the AI: {message}',
+  'errors.p2pStart': 'Could not start P2P: {message}',
+  'errors.callFailed': 'Call failed: {message}',
+  'errors.answer': 'Could not answer: {message}',
+  'errors.summonCommander': 'Could not summon the commander: {message}',
+  'errors.dataChannel': 'Data channel unavailable.',
+  'errors.playbackBlocked': 'Click the page to hear the audio.',
+  'errors.serviceUnavailable': 'Service temporarily unavailable (503). Please try again.',
+  'errors.sessionClosed': 'Gemini closed the session (code {code}).',
+  'errors.sessionClosedReason': 'Gemini closed the session: {reason} (code {code}).',
+  'errors.reconnectFailed': 'Could not reconnect to Gemini.',
+  'errors.micDisconnected': 'Microphone disconnected.',
+  'errors.micDenied': 'Microphone access denied or unavailable.',
+  'errors.sharedAudioMic': 'Microphone unavailable for mixing the shared audio.',
+  'errors.fleetFull': 'Fleet channel full (at most {max} pilots).',
+  'errors.peerIdTaken': 'This communicator ID is already in use.',
+  'errors.peerIdInvalid': 'Invalid communicator ID.',
+  'errors.webrtcUnsupported': 'This browser does not support WebRTC.',
+  'errors.signalingUnreachable': 'No connection to the signaling server.',
+  'errors.signalingClosed': 'Connection to the signaling server closed.',
+  'errors.p2pUnknown': 'Unknown error on the P2P channel.',
+  'errors.tokenServerUnreachable': 'Token server unreachable. Check that it is running.',
+  'errors.tokenFailed': 'Could not get a session token ({status}).',
+  'errors.indexedDbUnsupported': 'This browser does not support IndexedDB.',
+
+  'transcript.waiting': ':: AWAITING TRANSMISSION ::',
+  'transcript.you': 'You',
+
+  'chat.offer': 'OFFER',
+  'chat.accepted': 'OFFER ACCEPTED',
+  'chat.rejected': 'OFFER DECLINED',
+  'chat.channelOpen': ':: TEXT CHANNEL OPEN ::',
+  'chat.channelUnavailable': ':: TEXT CHANNEL UNAVAILABLE ::',
+  'chat.accept': 'ACCEPT',
+  'chat.reject': 'DECLINE',
+  'chat.typing': '{names} TYPING...',
+  'chat.placeholder': 'Coordinates, terms...',
+  'chat.waitingChannel': 'Waiting for the data channel...',
+  'chat.send': 'SEND',
+  'chat.propose': 'OFFER',
+
+  'ice.title': 'Network Diagnostics',
+  'ice.host': 'HOST (local network)',
+  'ice.srflx': 'SRFLX (STUN)',
+  'ice.prflx': 'PRFLX (peer reflexive)',
+  'ice.relay': 'RELAY (TURN)',
+  'ice.failed': 'Diagnostics failed: {message}',
+  'ice.signaling': 'Signaling:',
+  'ice.iceServers': 'ICE servers:',
+  'ice.defaultServers': 'PeerJS default',
+  'ice.complete': 'Gathering finished in {ms}ms',
+  'ice.timedOut': 'Timed out after {ms}ms',
+  'ice.noRelay': 'No RELAY candidates: networks with strict NAT may fail without TURN.',
+  'ice.running': 'GATHERING CANDIDATES...',
+  'ice.run': 'RUN ICE TEST',
+
+  'quality.title': 'Connection',
+  'quality.measuring': 'MEASURING...',
+  'quality.excellent': 'EXCELLENT',
+  'quality.good': 'GOOD',
+  'quality.fair': 'UNSTABLE',
+  'quality.poor': 'POOR',
+  'quality.rtt': 'Latency (RTT)',
+  'quality.jitter': 'Jitter',
+  'quality.loss': 'Packet loss',
+  'quality.sent': 'Sending',
+  'quality.received': 'Receiving',
+  'quality.path': 'Path',
+
+  'match.commander': 'Alien Commander',
+  'match.diplomat': 'Human Diplomat',
+  'match.briefing': 'CONFIDENTIAL BRIEFING — {role}',
+  'match.goal': 'Target: {target} {unit} · Limit: {limit} {unit}',
+  'match.waitingOther': 'WAITING FOR THE OTHER PILOT...',
+  'match.ready': 'READY TO NEGOTIATE',
+  'match.yourProposal': 'Your offer',
+  'match.receivedProposal': 'Offer received',
+  'match.confirm': 'CONFIRM DEAL',
+  'match.noProposal': 'No offer on the table.',
+  'match.amountPlaceholder': 'Amount in {unit}',
+  'match.propose': 'OFFER',
+  'match.walkAway': 'WALK AWAY',
+  'match.resolved': ':: NEGOTIATION OVER ::',
+  'match.won': 'Mission Accomplished',
+  'match.lost': 'Mission Failed',
+  'match.reasonAgreement': 'Deal closed',
+  'match.reasonWalkAway': 'One of the pilots walked away',
+  'match.reasonTimeout': 'The round ran out of time',
+  'match.dealAmount': ' for {amount} {unit}',
+  'match.youSuffix': ' (YOU)',
+  'match.targetAndLimit': 'Target: {target} · Limit: {limit} {unit}',
+  'match.objectiveMet': 'OBJECTIVE MET',
+  'match.objectiveMissed': 'OBJECTIVE MISSED',
+
+  'archive.title': 'Session Archive',
+  'archive.subtitle': 'Select up to {max} negotiations to replay side by side.',
+  'archive.loading': ':: LOADING ARCHIVE ::',
+  'archive.empty': ':: NO RECORDED SESSIONS ::',
+  'archive.victory': 'VICTORY',
+  'archive.defeat': 'DEFEAT',
+  'archive.delete': 'DELETE',
+  'archive.openFailed': 'Could not open the archive: {message}',
+  'archive.loadFailed': 'Could not load the session: {message}',
+  'archive.deleteFailed': 'Could not delete the session: {message}',
+
+  'campaign.menuTitle': 'Campaign',
+  'campaign.menuBadge': 'PERSISTENT',
+  'campaign.menuDescription': 'Cross the sectors one by one. The commanders remember how you treated them.',
+  'campaign.title': 'Campaign Map',
+  'campaign.reputation': 'Reputation',
+  'campaign.resources': 'Resources',
+  'campaign.sector': 'SECTOR {n}',
+  'campaign.easy': 'EASY',
+  'campaign.normal': 'NORMAL',
+  'campaign.hard': 'HARD',
+  'campaign.locked': 'LOCKED',
+  'campaign.available': 'AVAILABLE',
+  'campaign.won': 'CONQUERED',
+  'campaign.lost': 'DEFEAT',
+  'campaign.reward': '+{amount} resources',
+  'campaign.start': 'OPEN FREQUENCY',
+  'campaign.retry': 'TRY AGAIN',
+  'campaign.complete': ':: CAMPAIGN COMPLETE ::',
+  'campaign.reset': 'RESET CAMPAIGN',
+  'campaign.resetConfirm': 'Erase all campaign progress?',
+  'campaign.standing': 'Reputation {reputation}/100 · Resources {resources}',
+  'campaign.backToMap': 'CAMPAIGN MAP',
+
+  'replay.pilot': 'Pilot',
+  'replay.play': 'PLAY',
+  'replay.pause': 'PAUSE',
+
+  'audio.title': 'Audio Settings',
+  'audio.microphone': 'Microphone',
+  'audio.microphoneN': 'Microphone {n}',
+  'audio.speaker': 'Speaker',
+  'audio.speakerN': 'Speaker {n}',
+  'audio.systemDefault': 'System default',
+  'audio.outputUnsupported': 'This browser does not allow choosing the output.',
+  'audio.echoCancellation': 'Echo cancellation',
+  'audio.noiseSuppression': 'Noise suppression',
+  'audio.autoGainControl': 'Automatic gain',
+
+  'visualizer.bars': 'BARS',
+  'visualizer.oscilloscope': 'OSCILLOSCOPE',
+  'visualizer.radial': 'RADIAL',
+
+  'summary.title': 'Conversation Analysis',
+  'summary.who': 'WHO',
+  'summary.talk': 'TALK',
+  'summary.turns': 'TURNS',
+  'summary.interruptions': 'INTERRUPTIONS',
+  'summary.overlaps': 'OVERLAPS',
+  'summary.silences': 'SILENCES',
+  'summary.longest': 'max. {duration}',
+  'summary.latency': 'RESPONSE LATENCY',
+  'summary.latencyValue': 'avg. {average} ms ({min}–{max})',
+  'summary.export': 'EXPORT ANALYSIS (JSON)',
+};
@@ -0,0 +1,254 @@
+import { MessageKey } from './pt-BR';
+
+export const ES: Record<MessageKey, string> = {
+  'app.title': 'COMUNICADOR UNIVERSAL',
+  'app.modeAi': 'MODO: IA',
+  'app.modeP2p': 'MODO: HUMANO',
+  'app.offline': 'DESCONECTADO',
+  'app.pilot': 'Piloto {id}',
+  'app.backToMenu': 'Volver al Menú',
+
+  'menu.title': 'Seleccione la Frecuencia',
+  'menu.subtitle': 'Elija con quién desea establecer comunicación.',
+  'menu.commanders': 'Comandantes (IA)',
+  'menu.singleplayer': 'UN JUGADOR',
+  'menu.p2pTitle': 'Canal Seguro (Humano)',
+  'menu.p2pBadge': 'EN LÍNEA P2P',
+  'menu.p2pDescription': 'Converse con otro jugador humano mediante comunicación WebRTC en tiempo real.',
+  'menu.archive': 'ARCHIVO DE SESIONES (REPETICIÓN)',
+  'menu.record': 'Grabar la sesión (audio + transcripción) para exportarla al final',
+  'menu.pushToTalk': 'Pulsar para hablar (mantenga ESPACIO) con los comandantes',
+  'menu.language': 'Idioma',
+  'menu.inputMode': 'Entrada',
+  'menu.inputVoice': 'VOZ',
+  'menu.inputMixed': 'VOZ + TEXTO',
+  'menu.inputText': 'SOLO TEXTO',
+  'menu.textReplies': 'Los comandantes responden por texto (en lugar de voz)',
+
+  'ai.victory': ':: PASO CONCEDIDO ::',
+  'ai.defeat': ':: ALERTA: ARMAS ACTIVADAS ::',
+  'ai.reconnecting': 'SEÑAL PERDIDA — RECONECTANDO...',
+  'ai.connecting': 'CONECTANDO CON GEMINI...',
+  'ai.connected': ':: ENLACE NEURAL ESTABLECIDO ::',
+  'ai.yourVoice': 'Su Voz',
+  'ai.localSpeaker': 'Diplomático',
+  'ai.talking': 'TRANSMITIENDO...',
+  'ai.holdToTalk': 'MANTENGA PARA HABLAR',
+  'ai.muted': 'MICRÓFONO SILENCIADO',
+  'ai.mute': 'SILENCIAR',
+  'ai.end': 'FINALIZAR',
+  'ai.micUnavailable': 'Micrófono no disponible — escriba sus mensajes.',
+  'ai.textPlaceholder': 'Escriba su mensaje al comandante...',
+  'ai.send': 'ENVIAR',
+
+  'p2p.yourId': 'Su ID de Comunicador',
+  'p2p.shareId': 'Comparta este código con otro piloto.',
+  'p2p.targetPlaceholder': 'ESCRIBA EL ID DEL OBJETIVO',
+  'p2p.connecting': 'CONECTANDO...',
+  'p2p.startCall': 'INICIAR LLAMADA',
+  'p2p.incomingCall': 'LLAMADA ENTRANTE DE: {id}',
+  'p2p.answer': 'CONTESTAR',
+  'p2p.reject': 'RECHAZAR',
+  'p2p.calling': 'LLAMANDO A {id}...',
+  'p2p.cancel': 'CANCELAR',
+  'p2p.you': 'USTED',
+  'p2p.commanderVia': 'vía {id}',
+  'p2p.invitePlaceholder': 'INVITAR PILOTO',
+  'p2p.add': 'AÑADIR',
+  'p2p.summonCommander': 'LLAMAR AL COMANDANTE',
+  'p2p.commanderInChannel': ':: COMANDANTE EN EL CANAL ::',
+  'p2p.connectingCommander': 'CONECTANDO CON EL COMANDANTE...',
+  'p2p.dismiss': 'DESPEDIR',
+  'p2p.startMatch': 'INICIAR JUEGO DE NEGOCIACIÓN',
+  'p2p.hangUp': 'COLGAR',
+  'p2p.back': 'VOLVER',
+
+  'voice.effect': 'Voz',
+  'voice.none': 'NATURAL',
+  'voice.alien': 'ALIENÍGENA',
+  'voice.robot': 'ROBOT',
+  'voice.radio': 'RADIO',
+  'voice.swarm': 'ENJAMBRE',
+  'voice.monitor': 'Escuchar mi propia voz (use auriculares)',
+
+  'callEnd.remoteHangup': '{pilot} colgó la llamada.',
+  'callEnd.rejected': '{pilot} rechazó la llamada.',
+  'callEnd.busy': '{pilot} está ocupado en otra llamada.',
+  'callEnd.noAnswer': '{pilot} no contestó.',
+  'callEnd.cancelled': '{pilot} desistió de la llamada.',
+  'callEnd.unavailable': '{pilot} no está en línea (ID no encontrado).',
+  'callEnd.connectionLost': '{pilot} perdió la conexión.',
+  'callEnd.failed': '{pilot} no pudo ser conectado.',
+
+  'gameOver.victoryTitle': 'Paso Concedido',
+  'gameOver.defeatTitle': 'Nave Destruida',
+  'gameOver.victoryText': 'Ganó la negociación.',
+  'gameOver.defeatText': 'Perdió la negociación.',
+  'gameOver.sessionEnded': 'Sesión Finalizada',
+  'gameOver.exportRecording': 'EXPORTAR GRABACIÓN (WAV + JSON)',
+
+  'recording.localChannel': 'Micrófono del piloto local',
+  'recording.commanderChannel': 'Voz del comandante (IA)',
+  'recording.fleetChannel': 'Pilotos remotos y comandante, si está presente',
+
+  'errors.unknown': 'Error desconocido.',
+  'errors.audioDevice': 'Error al cambiar el dispositivo de audio: {message}',
+  'errors.aiConnect': 'Error al conectar con la IA: {message}',
+  'errors.p2pStart': 'Error al iniciar P2P: {message}',
+  'errors.callFailed': 'Fallo en la llamada: {message}',
+  'errors.answer': 'Error al contestar: {message}',
+  'errors.summonCommander': 'Error al llamar al comandante: {message}',
+  'errors.dataChannel': 'Canal de datos no disponible.',
+  'errors.playbackBlocked': 'Haga clic en la página para oír el audio.',
+  'errors.serviceUnavailable': 'Servicio temporalmente no disponible (503). Inténtelo de nuevo.',
+  'errors.sessionClosed': 'Gemini cerró la sesión (código {code}).',
+  'errors.sessionClosedReason': 'Gemini cerró la sesión: {reason} (código {code}).',
+  'errors.reconnectFailed': 'No se pudo reconectar con Gemini.',
+  'errors.micDisconnected': 'Micrófono desconectado.',
+  'errors.micDenied': 'Acceso al micrófono denegado o no disponible.',
+  'errors.sharedAudioMic': 'Micrófono no disponible para mezclar el audio compartido.',
+  'errors.fleetFull': 'Canal de la flota lleno (máximo de {max} pilotos).',
+  'errors.peerIdTaken': 'Este ID de comunicador ya está en uso.',
+  'errors.peerIdInvalid': 'ID de comunicador no válido.',
+  'errors.webrtcUnsupported': 'Este navegador no admite WebRTC.',
+  'errors.signalingUnreachable': 'Sin conexión con el servidor de señalización.',
+  'errors.signalingClosed': 'Conexión con el servidor de señalización cerrada.',
+  'errors.p2pUnknown': 'Error desconocido en el canal P2P.',
+  'errors.tokenServerUnreachable': 'Servidor de tokens inaccesible. Compruebe que esté en ejecución.',
+  'errors.tokenFailed': 'No se pudo obtener el token de sesión ({status}).',
+  'errors.indexedDbUnsupported': 'Este navegador no admite IndexedDB.',
+
+  'transcript.waiting': ':: ESPERANDO TRANSMISIÓN ::',
+  'transcript.you': 'Usted',
+
+  'chat.offer': 'PROPUESTA',
+  'chat.accepted': 'PROPUESTA ACEPTADA',
+  'chat.rejected': 'PROPUESTA RECHAZADA',
+  'chat.channelOpen': ':: CANAL DE TEXTO ABIERTO ::',
+  'chat.channelUnavailable': ':: CANAL DE TEXTO NO DISPONIBLE ::',
+  'chat.accept': 'ACEPTAR',
+  'chat.reject': 'RECHAZAR',
+  'chat.typing': '{names} ESCRIBIENDO...',
+  'chat.placeholder': 'Coordenadas, términos...',
+  'chat.waitingChannel': 'Esperando el canal de datos...',
+  'chat.send': 'ENVIAR',
+  'chat.propose': 'PROPONER',
+
+  'ice.title': 'Diagnóstico de Red',
+  'ice.host': 'HOST (red local)',
+  'ice.srflx': 'SRFLX (STUN)',
+  'ice.prflx': 'PRFLX (peer reflexivo)',
+  'ice.relay': 'RELAY (TURN)',
+  'ice.failed': 'Fallo en el diagnóstico: {message}',
+  'ice.signaling': 'Señalización:',
+  'ice.iceServers': 'Servidores ICE:',
+  'ice.defaultServers': 'predeterminados de PeerJS',
+  'ice.complete': 'Recolección completada en {ms}ms',
+  'ice.timedOut': 'Tiempo agotado en {ms}ms',
+  'ice.noRelay': 'Ningún candidato RELAY: las redes con NAT restringido pueden fallar sin TURN.',
+  'ice.running': 'RECOLECTANDO CANDIDATOS...',
+  'ice.run': 'EJECUTAR PRUEBA ICE',
+
+  'quality.title': 'Conexión',
+  'quality.measuring': 'MIDIENDO...',
+  'quality.excellent': 'EXCELENTE',
+  'quality.good': 'BUENA',
+  'quality.fair': 'INESTABLE',
+  'quality.poor': 'MALA',
+  'quality.rtt': 'Latencia (RTT)',
+  'quality.jitter': 'Jitter',
+  'quality.loss': 'Pérdida de paquetes',
+  'quality.sent': 'Envío',
+  'quality.received': 'Recepción',
+  'quality.path': 'Ruta',
+
+  'match.commander': 'Comandante Alienígena',
+  'match.diplomat': 'Diplomático Humano',
+  'match.briefing': 'INFORME CONFIDENCIAL — {role}',
+  'match.goal': 'Meta: {target} {unit} · Límite: {limit} {unit}',
+  'match.waitingOther': 'ESPERANDO AL OTRO PILOTO...',
+  'match.ready': 'LISTO PARA NEGOCIAR',
+  'match.yourProposal': 'Su propuesta',
+  'match.receivedProposal': 'Propuesta recibida',
+  'match.confirm': 'CONFIRMAR ACUERDO',
+  'match.noProposal': 'Ninguna propuesta sobre la mesa.',
+  'match.amountPlaceholder': 'Valor en {unit}',
+  'match.propose': 'PROPONER',
+  'match.walkAway': 'ABANDONAR NEGOCIACIÓN',
+  'match.resolved': ':: NEGOCIACIÓN TERMINADA ::',
+  'match.won': 'Misión Cumplida',
+  'match.lost': 'Misión Fracasada',
+  'match.reasonAgreement': 'Acuerdo cerrado',
+  'match.reasonWalkAway': 'Uno de los pilotos abandonó la negociación',
+  'match.reasonTimeout': 'Se acabó el tiempo de la ronda',
+  'match.dealAmount': ' por {amount} {unit}',
+  'match.youSuffix': ' (USTED)',
+  'match.targetAndLimit': 'Meta: {target} · Límite: {limit} {unit}',
+  'match.objectiveMet': 'OBJETIVO CUMPLIDO',
+  'match.objectiveMissed': 'OBJETIVO NO CUMPLIDO',
+
+  'archive.title': 'Archivo de Sesiones',
+  'archive.subtitle': 'Seleccione hasta {max} negociaciones para reproducirlas lado a lado.',
+  'archive.loading': ':: CARGANDO ARCHIVO ::',
+  'archive.empty': ':: NINGUNA SESIÓN GRABADA ::',
+  'archive.victory': 'VICTORIA',
+  'archive.defeat': 'DERROTA',
+  'archive.delete': 'BORRAR',
+  'archive.openFailed': 'Error al abrir el archivo: {message}',
+  'archive.loadFailed': 'Error al cargar la sesión: {message}',
+  'archive.deleteFailed': 'Error al borrar la sesión: {message}',
+
+  'campaign.menuTitle': 'Campaña',
+  'campaign.menuBadge': 'PERSISTENTE',
+  'campaign.menuDescription': 'Atraviese los sectores uno a uno. Los comandantes recuerdan cómo los trató.',
+  'campaign.title': 'Mapa de la Campaña',
+  'campaign.reputation': 'Reputación',
+  'campaign.resources': 'Recursos',
+  'campaign.sector': 'SECTOR {n}',
+  'campaign.easy': 'FÁCIL',
+  'campaign.normal': 'NORMAL',
+  'campaign.hard': 'DIFÍCIL',
+  'campaign.locked': 'BLOQUEADO',
+  'campaign.available': 'DISPONIBLE',
+  'campaign.won': 'CONQUISTADO',
+  'campaign.lost': 'DERROTA',
+  'campaign.reward': '+{amount} recursos',
+  'campaign.start': 'ABRIR FRECUENCIA',
+  'campaign.retry': 'REINTENTAR',
+  'campaign.complete': ':: CAMPAÑA COMPLETADA ::',
+  'campaign.reset': 'REINICIAR CAMPAÑA',
+  'campaign.resetConfirm': '¿Borrar todo el progreso de la campaña?',
+  'campaign.standing': 'Reputación {reputation}/100 · Recursos {resources}',
+  'campaign.backToMap': 'MAPA DE LA CAMPAÑA',
+
+  'replay.pilot': 'Piloto',
+  'replay.play': 'REPRODUCIR',
+  'replay.pause': 'PAUSAR',
+
+  'audio.title': 'Configuración de Audio',
+  'audio.microphone': 'Micrófono',
+  'audio.microphoneN': 'Micrófono {n}',
+  'audio.speaker': 'Altavoz',
+  'audio.speakerN': 'Altavoz {n}',
+  'audio.systemDefault': 'Predeterminado del sistema',
+  'audio.outputUnsupported': 'Este navegador no permite elegir la salida.',
+  'audio.echoCancellation': 'Cancelación de eco',
+  'audio.noiseSuppression': 'Supresión de ruido',
+  'audio.autoGainControl': 'Ganancia automática',
+
+  'visualizer.bars': 'BARRAS',
+  'visualizer.oscilloscope': 'OSCILOSCOPIO',
+  'visualizer.radial': 'RADIAL',
+
+  'summary.title': 'Análisis de la Conversación',
+  'summary.who': 'QUIÉN',
+  'summary.talk': 'HABLA',
+  'summary.turns': 'TURNOS',
+  'summary.interruptions': 'INTERRUPCIONES',
+  'summary.overlaps': 'SOLAPAMIENTOS',
+  'summary.silences': 'SILENCIOS',
+  'summary.longest': 'máx. {duration}',
+  'summary.latency': 'LATENCIA DE RESPUESTA',
+  'summary.latencyValue': 'media {average} ms ({min}–{max})',
+  'summary.export': 'EXPORTAR ANÁLISIS (JSON)',
+};
@@ -0,0 +1,66 @@
+import { Locale } from '../types';
+import { PT_BR, MessageKey } from './pt-BR';
+import { EN } from './en';
+import { ES } from './es';
+
+export type { MessageKey } from './pt-BR';
+
+const LOCALE_STORAGE_KEY = 'comunicador-locale';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'pt-BR': PT_BR,
+  en: EN,
+  es: ES,
+};
+
+export interface LocaleInfo {
+  label: string;
+  // BCP-47 code for the Live API speech config
+  speechLanguageCode: string;
+  // How the commander's system instruction names the language (it is written in Portuguese)
+  spokenLanguage: string;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  'pt-BR': { label: 'PT', speechLanguageCode: 'pt-BR', spokenLanguage: 'Português do Brasil' },
+  en: { label: 'EN', speechLanguageCode: 'en-US', spokenLanguage: 'inglês' },
+  es: { label: 'ES', speechLanguageCode: 'es-US', spokenLanguage: 'espanhol' },
+};
+
+const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in CATALOGS;
+
+function detectLocale(): Locale {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    console.warn("Could not read the stored locale", e);
+  }
+  const language = (navigator.language || '').toLowerCase();
+  if (language.startsWith('es')) return 'es';
+  if (language.startsWith('en')) return 'en';
+  return 'pt-BR';
+}
+
+let activeLocale: Locale = detectLocale();
+document.documentElement.lang = activeLocale;
+
+export const getLocale = (): Locale => activeLocale;
+
+export function setLocale(locale: Locale) {
+  activeLocale = locale;
+  document.documentElement.lang = locale;
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (e) {
+    console.warn("Could not save the locale", e);
+  }
+}
+
+// Looks the key up in the active catalog and fills `{name}` placeholders
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+  const template = CATALOGS[activeLocale][key] ?? PT_BR[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
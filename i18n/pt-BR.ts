@@ -0,0 +1,256 @@
+// Source catalog: its keys define MessageKey, so every other locale must
+// translate all of them. `{name}` placeholders are filled in by t().
+export const PT_BR = {
+  'app.title': 'COMUNICADOR UNIVERSAL',
+  'app.modeAi': 'MODO: IA',
+  'app.modeP2p': 'MODO: HUMANO',
+  'app.offline': 'OFFLINE',
+  'app.pilot': 'Piloto {id}',
+  'app.backToMenu': 'Voltar ao Menu',
+
+  'menu.title': 'Selecione a Frequência',
+  'menu.subtitle': 'Escolha com quem deseja estabelecer comunicação.',
+  'menu.commanders': 'Comandantes (IA)',
+  'menu.singleplayer': 'SINGLEPLAYER',
+  'menu.p2pTitle': 'Canal Seguro (Humano)',
+  'menu.p2pBadge': 'ONLINE P2P',
+  'menu.p2pDescription': 'Converse com outro jogador humano usando comunicação WebRTC em tempo real.',
+  'menu.archive': 'ARQUIVO DE SESSÕES (REPLAY)',
+  'menu.record': 'Gravar a sessão (áudio + transcrição) para exportar no final',
+  'menu.pushToTalk': 'Apertar para falar (segure ESPAÇO) com os comandantes',
+  'menu.language': 'Idioma',
+  'menu.inputMode': 'Entrada',
+  'menu.inputVoice': 'VOZ',
+  'menu.inputMixed': 'VOZ + TEXTO',
+  'menu.inputText': 'SÓ TEXTO',
+  'menu.textReplies': 'Comandantes respondem em texto (em vez de voz)',
+
+  'ai.victory': ':: PASSAGEM CONCEDIDA ::',
+  'ai.defeat': ':: ALERTA: ARMAS ATIVADAS ::',
+  'ai.reconnecting': 'SINAL PERDIDO — RECONECTANDO...',
+  'ai.connecting': 'CONECTANDO AO GEMINI...',
+  'ai.connected': ':: LINK NEURAL ESTABELECIDO ::',
+  'ai.yourVoice': 'Sua Voz',
+  'ai.localSpeaker': 'Diplomata',
+  'ai.talking': 'TRANSMITINDO...',
+  'ai.holdToTalk': 'SEGURE PARA FALAR',
+  'ai.muted': 'MICROFONE MUDO',
+  'ai.mute': 'SILENCIAR',
+  'ai.end': 'ENCERRAR',
+  'ai.micUnavailable': 'Microfone indisponível — digite suas mensagens.',
+  'ai.textPlaceholder': 'Digite sua mensagem ao comandante...',
+  'ai.send': 'ENVIAR',
+
+  'p2p.yourId': 'Seu ID de Comunicador',
+  'p2p.shareId': 'Compartilhe este código com outro piloto.',
+  'p2p.targetPlaceholder': 'DIGITE O ID DO ALVO',
+  'p2p.connecting': 'CONECTANDO...',
+  'p2p.startCall': 'INICIAR CHAMADA',
+  'p2p.incomingCall': 'CHAMADA ENTRANDO DE: {id}',
+  'p2p.answer': 'ATENDER',
+  'p2p.reject': 'RECUSAR',
+  'p2p.calling': 'CHAMANDO {id}...',
+  'p2p.cancel': 'CANCELAR',
+  'p2p.you': 'VOCÊ',
+  'p2p.commanderVia': 'via {id}',
+  'p2p.invitePlaceholder': 'CONVIDAR PILOTO',
+  'p2p.add': 'ADICIONAR',
+  'p2p.summonCommander': 'CHAMAR COMANDANTE',
+  'p2p.commanderInChannel': ':: COMANDANTE NO CANAL ::',
+  'p2p.connectingCommander': 'CONECTANDO AO COMANDANTE...',
+  'p2p.dismiss': 'DISPENSAR',
+  'p2p.startMatch': 'INICIAR JOGO DE NEGOCIAÇÃO',
+  'p2p.hangUp': 'DESLIGAR',
+  'p2p.back': 'VOLTAR',
+
+  'voice.effect': 'Voz',
+  'voice.none': 'NATURAL',
+  'voice.alien': 'ALIENÍGENA',
+  'voice.robot': 'ROBÔ',
+  'voice.radio': 'RÁDIO',
+  'voice.swarm': 'ENXAME',
+  'voice.monitor': 'Ouvir minha própria voz (use fones de ouvido)',
+
+  'callEnd.remoteHangup': '{pilot} desligou a chamada.',
+  'callEnd.rejected': '{pilot} recusou a chamada.',
+  'callEnd.busy': '{pilot} está ocupado em outra chamada.',
+  'callEnd.noAnswer': '{pilot} não atendeu.',
+  'callEnd.cancelled': '{pilot} desistiu da chamada.',
+  'callEnd.unavailable': '{pilot} não está online (ID não encontrado).',
+  'callEnd.connectionLost': '{pilot} perdeu a conexão.',
+  'callEnd.failed': '{pilot} não pôde ser conectado.',
+
+  'gameOver.victoryTitle': 'Passagem Concedida',
+  'gameOver.defeatTitle': 'Nave Destruída',
+  'gameOver.victoryText': 'Você venceu a negociação.',
+  'gameOver.defeatText': 'Você perdeu a negociação.',
+  'gameOver.sessionEnded': 'Sessão Finalizada',
+  'gameOver.exportRecording': 'EXPORTAR GRAVAÇÃO (WAV + JSON)',
+
+  'recording.localChannel': 'Microfone do piloto local',
+  'recording.commanderChannel': 'Voz do comandante (IA)',
+  'recording.fleetChannel': 'Pilotos remotos e comandante, se presente',
+
+  'errors.unknown': 'Erro desconhecido.',
+  'errors.audioDevice': 'Erro ao trocar o dispositivo de áudio: {message}',
+  'errors.aiConnect': 'Erro ao conectar IA: {message}',
+  'errors.p2pStart': 'Erro ao iniciar P2P: {message}',
+  'errors.callFailed': 'Falha na chamada: {message}',
+  'errors.answer': 'Erro ao atender: {message}',
+  'errors.summonCommander': 'Erro ao chamar o comandante: {message}',
+  'errors.dataChannel': 'Canal de dados indisponível.',
+  'errors.playbackBlocked': 'Clique na página para ouvir o áudio.',
+  'errors.serviceUnavailable': 'Serviço temporariamente indisponível (503). Por favor, tente novamente.',
+  'errors.sessionClosed': 'O Gemini encerrou a sessão (código {code}).',
+  'errors.sessionClosedReason': 'O Gemini encerrou a sessão: {reason} (código {code}).',
+  'errors.reconnectFailed': 'Não foi possível reconectar ao Gemini.',
+  'errors.micDisconnected': 'Microfone desconectado.',
+  'errors.micDenied': 'Acesso ao microfone negado ou indisponível.',
+  'errors.sharedAudioMic': 'Microfone indisponível para mixar o áudio compartilhado.',
+  'errors.fleetFull': 'Canal da frota cheio (máximo de {max} pilotos).',
+  'errors.peerIdTaken': 'Este ID de comunicador já está em uso.',
+  'errors.peerIdInvalid': 'ID de comunicador inválido.',
+  'errors.webrtcUnsupported': 'Este navegador não suporta WebRTC.',
+  'errors.signalingUnreachable': 'Sem conexão com o servidor de sinalização.',
+  'errors.signalingClosed': 'Conexão com o servidor de sinalização encerrada.',
+  'errors.p2pUnknown': 'Erro desconhecido no canal P2P.',
+  'errors.tokenServerUnreachable': 'Servidor de tokens inacessível. Verifique se ele está em execução.',
+  'errors.tokenFailed': 'Falha ao obter token de sessão ({status}).',
+  'errors.indexedDbUnsupported': 'Este navegador não suporta IndexedDB.',
+
+  'transcript.waiting': ':: AGUARDANDO TRANSMISSÃO ::',
+  'transcript.you': 'Você',
+
+  'chat.offer': 'PROPOSTA',
+  'chat.accepted': 'PROPOSTA ACEITA',
+  'chat.rejected': 'PROPOSTA RECUSADA',
+  'chat.channelOpen': ':: CANAL DE TEXTO ABERTO ::',
+  'chat.channelUnavailable': ':: CANAL DE TEXTO INDISPONÍVEL ::',
+  'chat.accept': 'ACEITAR',
+  'chat.reject': 'RECUSAR',
+  'chat.typing': '{names} DIGITANDO...',
+  'chat.placeholder': 'Coordenadas, termos...',
+  'chat.waitingChannel': 'Aguardando canal de dados...',
+  'chat.send': 'ENVIAR',
+  'chat.propose': 'PROPOR',
+
+  'ice.title': 'Diagnóstico de Rede',
+  'ice.host': 'HOST (rede local)',
+  'ice.srflx': 'SRFLX (STUN)',
+  'ice.prflx': 'PRFLX (peer reflexivo)',
+  'ice.relay': 'RELAY (TURN)',
+  'ice.failed': 'Falha no diagnóstico: {message}',
+  'ice.signaling': 'Sinalização:',
+  'ice.iceServers': 'Servidores ICE:',
+  'ice.defaultServers': 'padrão do PeerJS',
+  'ice.complete': 'Coleta concluída em {ms}ms',
+  'ice.timedOut': 'Tempo esgotado em {ms}ms',
+  'ice.noRelay': 'Nenhum candidato RELAY: redes com NAT restrito podem falhar sem TURN.',
+  'ice.running': 'COLETANDO CANDIDATOS...',
+  'ice.run': 'EXECUTAR TESTE ICE',
+
+  'quality.title': 'Conexão',
+  'quality.measuring': 'MEDINDO...',
+  'quality.excellent': 'EXCELENTE',
+  'quality.good': 'BOA',
+  'quality.fair': 'INSTÁVEL',
+  'quality.poor': 'RUIM',
+  'quality.rtt': 'Latência (RTT)',
+  'quality.jitter': 'Jitter',
+  'quality.loss': 'Perda de pacotes',
+  'quality.sent': 'Envio',
+  'quality.received': 'Recebimento',
+  'quality.path': 'Caminho',
+
+  'match.commander': 'Comandante Alienígena',
+  'match.diplomat': 'Diplomata Humano',
+  'match.briefing': 'BRIEFING CONFIDENCIAL — {role}',
+  'match.goal': 'Meta: {target} {unit} · Limite: {limit} {unit}',
+  'match.waitingOther': 'AGUARDANDO O OUTRO PILOTO...',
+  'match.ready': 'PRONTO PARA NEGOCIAR',
+  'match.yourProposal': 'Sua proposta',
+  'match.receivedProposal': 'Proposta recebida',
+  'match.confirm': 'CONFIRMAR ACORDO',
+  'match.noProposal': 'Nenhuma proposta na mesa.',
+  'match.amountPlaceholder': 'Valor em {unit}',
+  'match.propose': 'PROPOR',
+  'match.walkAway': 'ABANDONAR NEGOCIAÇÃO',
+  'match.resolved': ':: NEGOCIAÇÃO ENCERRADA ::',
+  'match.won': 'Missão Cumprida',
+  'match.lost': 'Missão Fracassada',
+  'match.reasonAgreement': 'Acordo fechado',
+  'match.reasonWalkAway': 'Um dos pilotos abandonou a negociação',
+  'match.reasonTimeout': 'O tempo da rodada acabou',
+  'match.dealAmount': ' por {amount} {unit}',
+  'match.youSuffix': ' (VOCÊ)',
+  'match.targetAndLimit': 'Meta: {target} · Limite: {limit} {unit}',
+  'match.objectiveMet': 'OBJETIVO ATINGIDO',
+  'match.objectiveMissed': 'OBJETIVO NÃO ATINGIDO',
+
+  'archive.title': 'Arquivo de Sessões',
+  'archive.subtitle': 'Selecione até {max} negociações para reproduzir lado a lado.',
+  'archive.loading': ':: CARREGANDO ARQUIVO ::',
+  'archive.empty': ':: NENHUMA SESSÃO GRAVADA ::',
+  'archive.victory': 'VITÓRIA',
+  'archive.defeat': 'DERROTA',
+  'archive.delete': 'APAGAR',
+  'archive.openFailed': 'Erro ao abrir o arquivo: {message}',
+  'archive.loadFailed': 'Erro ao carregar a sessão: {message}',
+  'archive.deleteFailed': 'Erro ao apagar a sessão: {message}',
+
+  'campaign.menuTitle': 'Campanha',
+  'campaign.menuBadge': 'PERSISTENTE',
+  'campaign.menuDescription': 'Atravesse os setores um a um. Os comandantes lembram de como você os tratou.',
+  'campaign.title': 'Mapa da Campanha',
+  'campaign.reputation': 'Reputação',
+  'campaign.resources': 'Recursos',
+  'campaign.sector': 'SETOR {n}',
+  'campaign.easy': 'FÁCIL',
+  'campaign.normal': 'NORMAL',
+  'campaign.hard': 'DIFÍCIL',
+  'campaign.locked': 'BLOQUEADO',
+  'campaign.available': 'DISPONÍVEL',
+  'campaign.won': 'CONQUISTADO',
+  'campaign.lost': 'DERROTA',
+  'campaign.reward': '+{amount} recursos',
+  'campaign.start': 'ABRIR FREQUÊNCIA',
+  'campaign.retry': 'TENTAR DE NOVO',
+  'campaign.complete': ':: CAMPANHA CONCLUÍDA ::',
+  'campaign.reset': 'REINICIAR CAMPANHA',
+  'campaign.resetConfirm': 'Apagar todo o progresso da campanha?',
+  'campaign.standing': 'Reputação {reputation}/100 · Recursos {resources}',
+  'campaign.backToMap': 'MAPA DA CAMPANHA',
+
+  'replay.pilot': 'Piloto',
+  'replay.play': 'REPRODUZIR',
+  'replay.pause': 'PAUSAR',
+
+  'audio.title': 'Configurações de Áudio',
+  'audio.microphone': 'Microfone',
+  'audio.microphoneN': 'Microfone {n}',
+  'audio.speaker': 'Alto-falante',
+  'audio.speakerN': 'Alto-falante {n}',
+  'audio.systemDefault': 'Padrão do sistema',
+  'audio.outputUnsupported': 'Este navegador não permite escolher a saída.',
+  'audio.echoCancellation': 'Cancelamento de eco',
+  'audio.noiseSuppression': 'Supressão de ruído',
+  'audio.autoGainControl': 'Ganho automático',
+
+  'visualizer.bars': 'BARRAS',
+  'visualizer.oscilloscope': 'OSCILOSCÓPIO',
+  'visualizer.radial': 'RADIAL',
+
+  'summary.title': 'Análise da Conversa',
+  'summary.who': 'QUEM',
+  'summary.talk': 'FALA',
+  'summary.turns': 'TURNOS',
+  'summary.interruptions': 'INTERRUPÇÕES',
+  'summary.overlaps': 'SOBREPOSIÇÕES',
+  'summary.silences': 'SILÊNCIOS',
+  'summary.longest': 'máx. {duration}',
+  'summary.latency': 'LATÊNCIA DE RESPOSTA',
+  'summary.latencyValue': 'média {average} ms ({min}–{max})',
+  'summary.export': 'EXPORTAR ANÁLISE (JSON)',
+};
+
+export type MessageKey = keyof typeof PT_BR;
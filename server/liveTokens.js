@@ -0,0 +1,127 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { GoogleGenAI } from '@google/genai';
+
+// How long a Live session opened with the token may run
+const SESSION_TTL_MS = 30 * 60 * 1000;
+// How long the token may be used to open a new session
+const NEW_SESSION_TTL_MS = 60 * 1000;
+
+// Signed cookie tying token requests to a browser that is running the app
+const SESSION_COOKIE = 'live_token_session';
+const SESSION_MAX_AGE_S = 12 * 60 * 60;
+// Tokens one browser session, and all sessions together, may mint per window
+const RATE_WINDOW_MS = 60 * 1000;
+const TOKENS_PER_SESSION = 10;
+const TOKENS_TOTAL = 120;
+
+/**
+ * Mints a single-use ephemeral Live API token. The real API key never leaves this process.
+ * @param {string} apiKey
+ * @returns {Promise<{ token: string, expireTime: string }>}
+ */
+export async function createLiveToken(apiKey) {
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+  const now = Date.now();
+  const expireTime = new Date(now + SESSION_TTL_MS).toISOString();
+
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime,
+      newSessionExpireTime: new Date(now + NEW_SESSION_TTL_MS).toISOString(),
+      httpOptions: { apiVersion: 'v1alpha' },
+    },
+  });
+
+  if (!token.name) {
+    throw new Error('Token response did not include a token name');
+  }
+  return { token: token.name, expireTime };
+}
+
+/**
+ * Offline stand-in for local development: lets the UI run without network or API key.
+ * Live sessions opened with it will be rejected by Gemini.
+ * @returns {{ token: string, expireTime: string, stub: true }}
+ */
+export function createStubToken() {
+  return {
+    token: `stub-${Math.random().toString(36).substring(2, 10)}`,
+    expireTime: new Date(Date.now() + NEW_SESSION_TTL_MS).toISOString(),
+    stub: true,
+  };
+}
+
+/**
+ * Authorizes token requests from the app in a browser: the request must come
+ * from the allowed Origin and carry a session cookie this guard issued, and
+ * both the session and the whole server are rate limited. A request without a
+ * valid cookie gets a 401 that sets one, so the client simply retries once.
+ * Scripts can still forge all of this; the limits bound what they can mint.
+ * @param {{ allowedOrigin?: string }} options without allowedOrigin, the page
+ *   must be served from the endpoint's own origin (dev server)
+ */
+export function createTokenGuard({ allowedOrigin } = {}) {
+  // Cookies are only valid for this process
+  const key = randomBytes(32);
+  const sessionCounts = new Map();
+  let total = 0;
+  let windowStart = Date.now();
+
+  const sign = (id) => createHmac('sha256', key).update(id).digest('base64url');
+
+  function isAllowedOrigin(origin, req) {
+    if (!origin) return false;
+    if (allowedOrigin) return origin === allowedOrigin;
+    try {
+      return new URL(origin).host === req.headers.host;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  function readSession(req) {
+    const cookie = String(req.headers.cookie ?? '')
+      .split(';')
+      .map(part => part.trim())
+      .find(part => part.startsWith(`${SESSION_COOKIE}=`));
+    if (!cookie) return null;
+    const [id, signature] = cookie.slice(SESSION_COOKIE.length + 1).split('.');
+    if (!id || !signature) return null;
+    const sent = Buffer.from(signature);
+    const expected = Buffer.from(sign(id));
+    return sent.length === expected.length && timingSafeEqual(sent, expected) ? id : null;
+  }
+
+  function newSessionCookie(origin) {
+    const id = randomBytes(16).toString('base64url');
+    const secure = origin.startsWith('https:') ? '; Secure' : '';
+    return `${SESSION_COOKIE}=${id}.${sign(id)}; Path=/; Max-Age=${SESSION_MAX_AGE_S}; HttpOnly; SameSite=Strict${secure}`;
+  }
+
+  /**
+   * @param {import('node:http').IncomingMessage} req
+   * @returns {{ status: number, error: string, cookie?: string } | null} why the request is refused, or null
+   */
+  return function checkTokenRequest(req) {
+    const origin = req.headers.origin;
+    if (!isAllowedOrigin(origin, req)) return { status: 403, error: 'Origin not allowed' };
+
+    const session = readSession(req);
+    if (!session) return { status: 401, error: 'No session', cookie: newSessionCookie(origin) };
+
+    const now = Date.now();
+    if (now - windowStart >= RATE_WINDOW_MS) {
+      sessionCounts.clear();
+      total = 0;
+      windowStart = now;
+    }
+    const count = sessionCounts.get(session) ?? 0;
+    if (count >= TOKENS_PER_SESSION || total >= TOKENS_TOTAL) {
+      return { status: 429, error: 'Too many token requests' };
+    }
+    sessionCounts.set(session, count + 1);
+    total++;
+    return null;
+  };
+}
@@ -0,0 +1,35 @@
+// Self-hosted PeerJS signaling server, for private networks or when the public
+// PeerJS cloud is not reachable.
+// Usage: npm run signaling-server
+//
+// Env:
+//   PEER_PORT     port to listen on (default 9000)
+//   PEER_PATH     mount path (default /peerjs)
+//   PEER_KEY      API key clients must send (default peerjs)
+//   PEER_PROXIED  set to 1 when running behind a reverse proxy that terminates TLS
+//
+// Point the client at it with PEER_HOST / PEER_PORT / PEER_PATH / PEER_KEY / PEER_SECURE
+// in .env.local (see README).
+import { PeerServer } from 'peer';
+
+const PORT = Number(process.env.PEER_PORT || 9000);
+const PATH = process.env.PEER_PATH || '/peerjs';
+const KEY = process.env.PEER_KEY || 'peerjs';
+
+const server = PeerServer({
+  port: PORT,
+  path: PATH,
+  key: KEY,
+  proxied: process.env.PEER_PROXIED === '1',
+  allow_discovery: false,
+});
+
+server.on('connection', (client) => {
+  console.log(`Peer connected: ${client.getId()}`);
+});
+
+server.on('disconnect', (client) => {
+  console.log(`Peer disconnected: ${client.getId()}`);
+});
+
+console.log(`PeerJS signaling server listening on port ${PORT}, path ${PATH}`);
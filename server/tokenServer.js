@@ -0,0 +1,66 @@
+// Small token server for the Gemini Live API.
+// Usage: GEMINI_API_KEY=... node server/tokenServer.js
+//
+// Env:
+//   GEMINI_API_KEY        real API key (required unless LIVE_TOKEN_STUB=1)
+//   TOKEN_SERVER_PORT     port to listen on (default 8787)
+//   TOKEN_SERVER_HOST     interface to bind (default 127.0.0.1)
+//   TOKEN_ALLOWED_ORIGIN  origin of the app; the only one allowed to request tokens (default http://localhost:3000)
+//   LIVE_TOKEN_STUB=1     hand out offline stub tokens instead of real ones
+import http from 'node:http';
+import { createLiveToken, createStubToken, createTokenGuard } from './liveTokens.js';
+
+const PORT = Number(process.env.TOKEN_SERVER_PORT || 8787);
+const HOST = process.env.TOKEN_SERVER_HOST || '127.0.0.1';
+const ALLOWED_ORIGIN = process.env.TOKEN_ALLOWED_ORIGIN || 'http://localhost:3000';
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const USE_STUB = process.env.LIVE_TOKEN_STUB === '1';
+
+if (!API_KEY && !USE_STUB) {
+  console.error('GEMINI_API_KEY is not set (use LIVE_TOKEN_STUB=1 for offline stub tokens).');
+  process.exit(1);
+}
+
+const checkTokenRequest = createTokenGuard({ allowedOrigin: ALLOWED_ORIGIN });
+
+function send(res, status, body, cookie) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(cookie ? { 'Set-Cookie': cookie } : {}),
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/api/live-token') {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const refusal = checkTokenRequest(req);
+  if (refusal) {
+    send(res, refusal.status, { error: refusal.error }, refusal.cookie);
+    return;
+  }
+
+  try {
+    send(res, 200, USE_STUB ? createStubToken() : await createLiveToken(API_KEY));
+  } catch (e) {
+    console.error('Failed to create Live token:', e);
+    send(res, 502, { error: 'Failed to create token' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Live token server listening on http://${HOST}:${PORT}/api/live-token${USE_STUB ? ' (stub mode)' : ''}`);
+});
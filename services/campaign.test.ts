@@ -0,0 +1,30 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { CAMPAIGN_SECTORS } from '../data/campaign';
+import { buildCampaignBriefing, createCampaign, getSectorStatus, recordEncounter, recordRetreat } from './campaign';
+
+const [first, second] = CAMPAIGN_SECTORS;
+
+describe('recordRetreat', () => {
+  it('loses the sector when the pilot leaves before a decision', () => {
+    const progress = recordRetreat(createCampaign(), first, ['wait', 'never mind']);
+
+    expect(progress.reputation).toBe(createCampaign().reputation - first.reputationLoss);
+    expect(progress.resources).toBe(createCampaign().resources);
+    expect(progress.encounters).toEqual([
+      expect.objectContaining({ sectorId: first.id, result: 'defeat', reason: '', retreated: true, playerLines: ['wait', 'never mind'] }),
+    ]);
+    expect(getSectorStatus(progress, first)).toBe('lost');
+  });
+
+  it('tells the next commander that the pilot fled', () => {
+    const progress = recordRetreat(createCampaign(), first, []);
+    expect(buildCampaignBriefing(progress, second)).toContain('viu o diplomata fugir antes de decidir');
+  });
+
+  it('leaves decided encounters unflagged', () => {
+    const progress = recordEncounter(createCampaign(), first, { result: 'victory', reason: 'ok' }, []);
+    expect(progress.encounters[0]).not.toHaveProperty('retreated');
+    expect(getSectorStatus(progress, second)).toBe('available');
+  });
+});
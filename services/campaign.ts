@@ -0,0 +1,144 @@
+import { CampaignDifficulty, CampaignEncounter, CampaignProgress, CampaignSector, NegotiationOutcome } from '../types';
+import { CAMPAIGN_SECTORS } from '../data/campaign';
+import { getPersona } from '../data/personas';
+
+const CAMPAIGN_STORAGE_KEY = 'comunicador-campaign';
+
+const INITIAL_REPUTATION = 50;
+const INITIAL_RESOURCES = 100;
+// Pilot lines kept per encounter for the next commanders
+const MAX_PLAYER_LINES = 3;
+const MAX_PLAYER_LINE_LENGTH = 160;
+// Earlier encounters quoted in a commander's system instruction
+const MAX_BRIEFING_ENCOUNTERS = 6;
+
+export type SectorStatus = 'locked' | 'available' | 'won' | 'lost';
+
+// Model-facing, so written in Portuguese like the personas
+const DIFFICULTY_RULES: Record<CampaignDifficulty, string> = {
+  easy: 'Este setor é de dificuldade fácil: seja receptivo e aceite argumentos razoáveis.',
+  normal: 'Este setor é de dificuldade normal: mantenha seu comportamento habitual.',
+  hard: 'Este setor é de dificuldade difícil: seja muito exigente e conceda a passagem apenas diante de argumentos excelentes.',
+};
+
+export const createCampaign = (): CampaignProgress => ({
+  version: 1,
+  reputation: INITIAL_REPUTATION,
+  resources: INITIAL_RESOURCES,
+  encounters: [],
+});
+
+export function loadCampaign(): CampaignProgress {
+  try {
+    const stored = window.localStorage.getItem(CAMPAIGN_STORAGE_KEY);
+    if (!stored) return createCampaign();
+    const progress = JSON.parse(stored);
+    return progress?.version === 1 && Array.isArray(progress.encounters) ? progress : createCampaign();
+  } catch (e) {
+    console.warn("Invalid stored campaign, starting a new one", e);
+    return createCampaign();
+  }
+}
+
+export function saveCampaign(progress: CampaignProgress) {
+  try {
+    window.localStorage.setItem(CAMPAIGN_STORAGE_KEY, JSON.stringify(progress));
+  } catch (e) {
+    console.warn("Could not save the campaign", e);
+  }
+}
+
+const lastEncounterIn = (progress: CampaignProgress, sectorId: string): CampaignEncounter | undefined =>
+  progress.encounters.filter(e => e.sectorId === sectorId).pop();
+
+const isSectorWon = (progress: CampaignProgress, sectorId: string) =>
+  progress.encounters.some(e => e.sectorId === sectorId && e.result === 'victory');
+
+export function getSectorStatus(progress: CampaignProgress, sector: CampaignSector): SectorStatus {
+  if (isSectorWon(progress, sector.id)) return 'won';
+  const index = CAMPAIGN_SECTORS.findIndex(s => s.id === sector.id);
+  const previous = CAMPAIGN_SECTORS[index - 1];
+  if (previous && !isSectorWon(progress, previous.id)) return 'locked';
+  return lastEncounterIn(progress, sector.id) ? 'lost' : 'available';
+}
+
+export const isCampaignComplete = (progress: CampaignProgress) =>
+  CAMPAIGN_SECTORS.every(sector => isSectorWon(progress, sector.id));
+
+const clampReputation = (value: number) => Math.max(0, Math.min(100, value));
+
+function addEncounter(
+  progress: CampaignProgress,
+  sector: CampaignSector,
+  outcome: NegotiationOutcome,
+  playerLines: string[],
+  retreated: boolean
+): CampaignProgress {
+  const won = outcome.result === 'victory';
+  const encounter: CampaignEncounter = {
+    sectorId: sector.id,
+    personaId: sector.personaId,
+    result: outcome.result,
+    reason: outcome.reason,
+    playerLines: playerLines.slice(-MAX_PLAYER_LINES).map(line => line.slice(0, MAX_PLAYER_LINE_LENGTH)),
+    at: new Date().toISOString(),
+    ...(retreated && { retreated }),
+  };
+  return {
+    ...progress,
+    reputation: clampReputation(progress.reputation + (won ? sector.reputationGain : -sector.reputationLoss)),
+    resources: progress.resources + (won ? sector.reward : 0),
+    encounters: [...progress.encounters, encounter],
+  };
+}
+
+// Applies the commander's decision in a sector to the campaign
+export const recordEncounter = (
+  progress: CampaignProgress,
+  sector: CampaignSector,
+  outcome: NegotiationOutcome,
+  playerLines: string[]
+) => addEncounter(progress, sector, outcome, playerLines, false);
+
+// The pilot ended the session before the commander decided: the sector is lost
+export const recordRetreat = (progress: CampaignProgress, sector: CampaignSector, playerLines: string[]) =>
+  addEncounter(progress, sector, { result: 'defeat', reason: '' }, playerLines, true);
+
+function describeReputation(reputation: number): string {
+  if (reputation >= 75) return 'respeitada';
+  if (reputation >= 40) return 'neutra';
+  if (reputation >= 15) return 'duvidosa';
+  return 'péssima';
+}
+
+function describeEncounter(encounter: CampaignEncounter, personaId: string): string {
+  const sectorName = CAMPAIGN_SECTORS.find(s => s.id === encounter.sectorId)?.name ?? encounter.sectorId;
+  const who = encounter.personaId === personaId ? 'Você' : getPersona(encounter.personaId).name;
+  const decision = encounter.result === 'victory'
+    ? 'concedeu a passagem'
+    : encounter.retreated ? 'viu o diplomata fugir antes de decidir' : 'abriu fogo contra a nave';
+  const reason = encounter.reason ? ` Motivo: "${encounter.reason}".` : '';
+  const lines = encounter.playerLines.length
+    ? ` O diplomata disse: ${encounter.playerLines.map(line => `"${line}"`).join(' / ')}.`
+    : '';
+  return `- ${sectorName}: ${who} ${decision}.${reason}${lines}`;
+}
+
+// Campaign context appended to the commander's system instruction: difficulty,
+// the pilot's standing and what happened in earlier encounters
+export function buildCampaignBriefing(progress: CampaignProgress, sector: CampaignSector): string {
+  const encounters = progress.encounters.slice(-MAX_BRIEFING_ENCOUNTERS);
+  const history = encounters.length
+    ? `
+    Encontros anteriores deste diplomata (os seus você lembra; os dos outros comandantes chegaram como rumores):
+    ${encounters.map(e => describeEncounter(e, sector.personaId)).join('\n    ')}
+    Se já encontrou este diplomata, lembre-se de como ele se comportou e mencione isso na conversa.`
+    : `
+    Este é o primeiro encontro deste diplomata na campanha.`;
+  return `
+    Esta negociação faz parte de uma campanha em vários setores.
+    ${DIFFICULTY_RULES[sector.difficulty]}
+    A reputação do diplomata na galáxia é ${progress.reputation}/100 (${describeReputation(progress.reputation)}).
+    ${history.trim()}
+  `;
+}
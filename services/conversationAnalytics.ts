@@ -0,0 +1,170 @@
+import { SPEAKING_LEVEL } from '../utils/audioUtils';
+import { ConversationSummary, LatencyStats, SpeakerStats } from '../types';
+
+// A speaker stays "talking" through pauses shorter than this (between words)
+const HANGOVER_MS = 400;
+// Only silences at least this long are counted as gaps in the conversation
+const MIN_SILENCE_MS = 1000;
+// A throttled timer (background tab) must not turn one sample into seconds of speech
+const MAX_SAMPLE_GAP_MS = 250;
+
+interface SpeakerTrack {
+  label: string;
+  talkTimeMs: number;
+  turns: number;
+  interruptions: number;
+  overlaps: number;
+  // Start of the current speech segment; null while silent
+  activeSince: number | null;
+  lastActiveAt: number | null;
+}
+
+function latencyStats(values: number[]): LatencyStats | null {
+  if (values.length === 0) return null;
+  return {
+    count: values.length,
+    averageMs: Math.round(values.reduce((a, b) => a + b, 0) / values.length),
+    minMs: Math.round(Math.min(...values)),
+    maxMs: Math.round(Math.max(...values)),
+  };
+}
+
+// Turns the level samples the services already take for their meters into
+// talk time, turns, overlaps and silences per speaker. Interruptions and the
+// commander's response latency come from explicit Live API events.
+export class ConversationAnalytics {
+  private mode: ConversationSummary['mode'];
+  private startedAt = new Date();
+  private startTime = performance.now();
+  private endTime: number | null = null;
+
+  private speakers = new Map<string, SpeakerTrack>();
+  // Per speaker, since the call and the commander sample on their own timers
+  private lastSampleAt = new Map<string, number>();
+  // Who held the floor last, to count turns
+  private lastSpeakerId: string | null = null;
+  private silenceStart: number | null = null;
+  private silences: number[] = [];
+  private latencies: number[] = [];
+  private lastResponseAt = 0;
+
+  constructor(mode: ConversationSummary['mode']) {
+    this.mode = mode;
+  }
+
+  addSpeaker(id: string, label: string) {
+    const existing = this.speakers.get(id);
+    if (existing) {
+      existing.label = label;
+      return existing;
+    }
+    const track: SpeakerTrack = {
+      label,
+      talkTimeMs: 0,
+      turns: 0,
+      interruptions: 0,
+      overlaps: 0,
+      activeSince: null,
+      lastActiveAt: null,
+    };
+    this.speakers.set(id, track);
+    return track;
+  }
+
+  // One reading of every speaker's level (0-255), taken at a steady interval
+  sample(levels: Record<string, number>, now = performance.now()) {
+    if (this.endTime !== null) return;
+    Object.keys(levels).forEach((id) => {
+      const lastSampleAt = this.lastSampleAt.get(id);
+      const elapsed = lastSampleAt === undefined ? 0 : Math.min(now - lastSampleAt, MAX_SAMPLE_GAP_MS);
+      this.lastSampleAt.set(id, now);
+      if (levels[id] <= SPEAKING_LEVEL) return;
+      const track = this.speakers.get(id) ?? this.addSpeaker(id, id);
+      track.talkTimeMs += elapsed;
+      track.lastActiveAt = now;
+      if (track.activeSince === null) this.startSegment(id, track, now);
+    });
+
+    let anyoneActive = false;
+    this.speakers.forEach((track) => {
+      if (track.activeSince === null) return;
+      if (now - track.lastActiveAt! > HANGOVER_MS) {
+        track.activeSince = null;
+      } else {
+        anyoneActive = true;
+      }
+    });
+
+    if (!anyoneActive && this.silenceStart === null && this.lastSpeakerId !== null) {
+      let lastActiveAt = 0;
+      this.speakers.forEach((track) => { lastActiveAt = Math.max(lastActiveAt, track.lastActiveAt ?? 0); });
+      this.silenceStart = lastActiveAt;
+    }
+  }
+
+  private startSegment(id: string, track: SpeakerTrack, now: number) {
+    let someoneElseActive = false;
+    this.speakers.forEach((other, otherId) => {
+      if (otherId !== id && other.activeSince !== null) someoneElseActive = true;
+    });
+    if (someoneElseActive) track.overlaps++;
+
+    if (this.silenceStart !== null) {
+      const gap = now - this.silenceStart;
+      if (gap >= MIN_SILENCE_MS) this.silences.push(gap);
+      this.silenceStart = null;
+    }
+
+    if (this.lastSpeakerId !== id) track.turns++;
+    this.lastSpeakerId = id;
+    track.activeSince = now;
+  }
+
+  // `speakerId` cut another speaker off (the Live API reported an interruption)
+  markInterruption(speakerId: string) {
+    if (this.endTime !== null) return;
+    (this.speakers.get(speakerId) ?? this.addSpeaker(speakerId, speakerId)).interruptions++;
+  }
+
+  // First audio of a response: measured from the end of `promptedBy`'s speech,
+  // if they spoke since the previous response
+  markResponseStart(promptedBy: string, now = performance.now()) {
+    if (this.endTime !== null) return;
+    const lastActiveAt = this.speakers.get(promptedBy)?.lastActiveAt;
+    if (lastActiveAt != null && lastActiveAt > this.lastResponseAt) {
+      this.latencies.push(Math.max(0, now - lastActiveAt));
+    }
+    this.lastResponseAt = now;
+  }
+
+  stop() {
+    if (this.endTime === null) this.endTime = performance.now();
+  }
+
+  toSummary(): ConversationSummary {
+    const totalTalkMs = Array.from(this.speakers.values()).reduce((sum, track) => sum + track.talkTimeMs, 0);
+    const speakers: SpeakerStats[] = Array.from(this.speakers.entries()).map(([id, track]) => ({
+      id,
+      label: track.label,
+      talkTimeMs: Math.round(track.talkTimeMs),
+      talkShare: totalTalkMs > 0 ? track.talkTimeMs / totalTalkMs : 0,
+      turns: track.turns,
+      interruptions: track.interruptions,
+      overlaps: track.overlaps,
+    }));
+
+    return {
+      version: 1,
+      mode: this.mode,
+      startedAt: this.startedAt.toISOString(),
+      durationMs: Math.round((this.endTime ?? performance.now()) - this.startTime),
+      speakers,
+      silences: {
+        count: this.silences.length,
+        totalMs: Math.round(this.silences.reduce((a, b) => a + b, 0)),
+        longestMs: Math.round(Math.max(0, ...this.silences)),
+      },
+      responseLatency: latencyStats(this.latencies),
+    };
+  }
+}
@@ -1,128 +1,660 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decodeBase64, pcmToAudioBuffer } from '../utils/audioUtils';
+import { FunctionDeclaration, GoogleGenAI, LiveServerMessage, LiveServerToolCall, Modality, Type } from '@google/genai';
+import { ANALYSER_FFT_SIZE, decodeBase64, int16ToPcmBlob, measureByteLevel, measureLevel, pcmBytesToInt16 } from '../utils/audioUtils';
+import { PlaybackEngine, PlaybackFlushReport } from './playbackEngine';
+import { LiveTokenProvider } from './liveTokenProvider';
+import { SessionRecorder } from './sessionRecorder';
+import { ArchiveWriter } from './sessionArchive';
+import { ConversationAnalytics } from './conversationAnalytics';
+import { GEMINI_OUTPUT_SAMPLE_RATE } from '../utils/playbackWorklet';
+import { applySinkId, DEFAULT_AUDIO_SETTINGS, inputSettingsChanged, openMicrophone } from '../utils/audioDevices';
+import { createCaptureNode, DEFAULT_CAPTURE_CHUNK_SIZE, GEMINI_INPUT_SAMPLE_RATE, loadCaptureWorklet } from '../utils/captureWorklet';
+import { AudioDeviceSettings, CommanderInputMode, CommanderPersona, CommanderReplyMode, LiveConnectionState, Locale, MessageLog, NegotiationOutcome, NegotiationResult } from '../types';
+import { getLocale, LOCALES, t } from '../i18n';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// Native audio models only answer in audio, so text replies use a half-cascade model
+const TEXT_REPLY_MODEL = 'gemini-live-2.5-flash-preview';
+
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+
+// Id of the microphone in the input mix
+const LOCAL_SPEAKER_ID = 'local';
+// The commander, in the conversation analytics
+const AI_SPEAKER_ID = 'ai';
+// RMS level above which a speaker counts as talking
+const SPEAKER_ACTIVITY_THRESHOLD = 0.02;
+
+// Close codes after which reconnecting cannot help: malformed or unsupported
+// requests and policy closes (bad token, quota, disallowed model)
+const FATAL_CLOSE_CODES = new Set([1002, 1003, 1007, 1008, 1009, 1010]);
+
+interface SessionClose {
+  code: number;
+  reason: string;
+}
+
+// Translate common errors
+function toUserError(err: any): Error {
+  let errorMessage = err?.message || t('errors.unknown');
+  if (errorMessage.includes("503") || errorMessage.includes("unavailable")) {
+    errorMessage = t('errors.serviceUnavailable');
+  }
+  return new Error(errorMessage);
+}
+
+// Why we gave up on a session that closed without an error
+function toCloseError(close: SessionClose | null): Error {
+  if (!close) return new Error(t('errors.reconnectFailed'));
+  return new Error(close.reason
+    ? t('errors.sessionClosedReason', { code: close.code, reason: close.reason })
+    : t('errors.sessionClosed', { code: close.code }));
+}
 
 interface LiveServiceCallbacks {
   onConnect?: () => void;
   onDisconnect?: () => void;
+  onStateChange?: (state: LiveConnectionState) => void;
   onVolumeChange?: (inputVol: number, outputVol: number) => void;
+  onTranscript?: (entry: MessageLog) => void;
+  onOutcome?: (outcome: NegotiationOutcome) => void;
+  onInterrupted?: (report: PlaybackFlushReport) => void;
+  // Mixed input mode went on without a microphone; only typed messages reach the commander
+  onMicrophoneUnavailable?: () => void;
   onError?: (error: Error) => void;
 }
 
+interface LiveServiceOptions {
+  // Samples (at 16 kHz) per audio chunk sent to Gemini
+  captureChunkSize?: number;
+  // Audio buffered before the commander's speech starts playing
+  jitterBufferMs?: number;
+  // Reconnect attempts after a dropped session before giving up
+  maxReconnectAttempts?: number;
+  // Microphone owned by the caller (e.g. the P2P call); it is not stopped on disconnect
+  inputStream?: MediaStream;
+  // Name the commander uses for the local pilot when several pilots share the channel
+  localSpeakerLabel?: string;
+  // The local pilot's id in the analytics, when they are shared with a P2P call (default: 'local')
+  localSpeakerId?: string;
+  // Several human pilots talk to the commander through one mixed input
+  sharedChannel?: boolean;
+  // Records the pilot (local channel) and the commander (remote channel)
+  recorder?: SessionRecorder;
+  // Keeps the session's audio chunks and levels in the archive for replay
+  archive?: ArchiveWriter;
+  // Talk time, turns, interruptions and response latency of the session
+  analytics?: ConversationAnalytics;
+  // Microphone, speaker and processing choices
+  audioSettings?: AudioDeviceSettings;
+  // The player marks their own turns (startTalking/stopTalking) instead of the
+  // server detecting speech; audio is only sent while talking
+  pushToTalk?: boolean;
+  // Language the commander speaks; defaults to the UI locale
+  locale?: Locale;
+  // Microphone, microphone plus typed messages, or typed messages only (default: 'voice')
+  inputMode?: CommanderInputMode;
+  // Whether the commander answers in audio (default) or in text
+  replyMode?: CommanderReplyMode;
+  // Campaign context (difficulty, reputation, earlier encounters) added to the instruction
+  campaignBriefing?: string;
+}
+
+interface SpeakerInput {
+  label: string;
+  source: MediaStreamAudioSourceNode;
+  analyser: AnalyserNode;
+}
+
+// Tools the commander calls to end the negotiation, mapped to the result they mean for the player
+const OUTCOME_TOOLS: Record<string, NegotiationResult> = {
+  grantSafePassage: 'victory',
+  openFire: 'defeat',
+};
+
+const reasonParameter = {
+  type: Type.OBJECT,
+  properties: {
+    reason: {
+      type: Type.STRING,
+      description: 'Motivo da decisão, dito pelo comandante em uma frase curta.',
+    },
+  },
+  required: ['reason'],
+};
+
+const NEGOTIATION_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'grantSafePassage',
+    description: 'Concede passagem segura à nave do diplomata. Encerra a negociação com vitória do jogador.',
+    parameters: reasonParameter,
+  },
+  {
+    name: 'openFire',
+    description: 'Abre fogo contra a nave do diplomata. Encerra a negociação com derrota do jogador.',
+    parameters: reasonParameter,
+  },
+];
+
+// Rules shared by every commander, appended to the persona's own instruction
+function buildSystemInstruction(
+  persona: CommanderPersona,
+  sharedChannel: boolean,
+  locale: Locale,
+  campaignBriefing: string | null
+): string {
+  const { spokenLanguage } = LOCALES[locale];
+  // Personas are written in Portuguese, so other locales get the opening line translated
+  const openingLine = locale === 'pt-BR'
+    ? `Abra a conversa com esta fala: "${persona.openingLine}"`
+    : `Abra a conversa com esta fala, traduzida para o ${spokenLanguage}: "${persona.openingLine}"`;
+  const winConditions = persona.winConditions.map(c => `- ${c}`).join('\n');
+  const sharedRules = sharedChannel ? `
+    Há mais de um diplomata humano neste canal, negociando juntos com você.
+    Quando outro diplomata começa a falar, você recebe uma marcação como "[Fala agora: NOME]".
+    Trate cada diplomata pelo nome e considere quem fez cada proposta, mas decida o destino da nave como um todo.
+  ` : '';
+  return `
+    ${persona.systemInstruction.trim()}
+    Fale SEMPRE em ${spokenLanguage}.
+    Mantenha suas respostas curtas (máximo 2 frases) para um diálogo fluido.
+    ${openingLine}
+    Conceda a passagem apenas se uma destas condições for atendida:
+    ${winConditions}
+    Quando tomar sua decisão final, anuncie-a em voz alta e chame a ferramenta grantSafePassage (se concordar)
+    ou openFire (se atacar), informando o motivo.
+    ${sharedRules.trim()}
+    ${campaignBriefing?.trim() ?? ''}
+  `;
+}
+
 export class LiveService {
-  private ai: GoogleGenAI;
+  private tokenProvider: LiveTokenProvider;
+  private persona: CommanderPersona;
+  private captureChunkSize: number;
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
-  private inputSource: MediaStreamAudioSourceNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  // Every pilot heard by the commander: the microphone plus, in a shared channel, remote pilots
+  private speakers = new Map<string, SpeakerInput>();
+  private inputMix: GainNode | null = null;
+  private activeSpeakerId: string | null = null;
+  private localSpeakerLabel: string;
+  private localSpeakerId: string;
+  private sharedChannel: boolean;
+  private recorder: SessionRecorder | null;
+  private archive: ArchiveWriter | null;
+  private analytics: ConversationAnalytics | null;
+  private audioSettings: AudioDeviceSettings;
+  private pushToTalk: boolean;
+  private locale: Locale;
+  private inputMode: CommanderInputMode;
+  private replyMode: CommanderReplyMode;
+  private campaignBriefing: string | null;
+  private isTalking = false;
+  private isMuted = false;
+  private processor: AudioWorkletNode | null = null;
   private outputNode: GainNode | null = null;
-  private audioSources = new Set<AudioBufferSourceNode>();
-  private nextStartTime = 0;
+  private playback: PlaybackEngine | null = null;
+  private jitterBufferMs?: number;
+  // True until the first audio chunk (or text, for text replies) of the next model turn arrives
+  private awaitingTurnAudio = true;
   private stream: MediaStream | null = null;
+  private ownsStream = true;
+  // Commander's voice as a MediaStream, created on demand for the P2P call
+  private outputStreamNode: MediaStreamAudioDestinationNode | null = null;
   private isConnected = false;
   private sessionPromise: Promise<any> | null = null;
+  private callbacks: LiveServiceCallbacks = {};
+
+  // Reconnection / session resumption
+  private maxReconnectAttempts: number;
+  private reconnectAttempts = 0;
+  private reconnectTimeout: number | null = null;
+  private resumptionHandle: string | null = null;
+  // Incremented per opened session so events from stale sessions are ignored
+  private sessionGeneration = 0;
+  private hasOpened = false;
+  private isClosing = false;
+
+  // Transcription fragments accumulated until the turn completes
+  private pendingUserText = '';
+  private pendingAiText = '';
+  private transcriptCounter = 0;
   
   // Volume analysis
   private inputAnalyser: AnalyserNode | null = null;
   private outputAnalyser: AnalyserNode | null = null;
   private volumeInterval: number | null = null;
 
-  constructor(apiKey: string) {
-    this.ai = new GoogleGenAI({ apiKey });
+  constructor(tokenProvider: LiveTokenProvider, persona: CommanderPersona, options: LiveServiceOptions = {}) {
+    this.tokenProvider = tokenProvider;
+    this.persona = persona;
+    this.captureChunkSize = options.captureChunkSize ?? DEFAULT_CAPTURE_CHUNK_SIZE;
+    this.jitterBufferMs = options.jitterBufferMs;
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    this.localSpeakerLabel = options.localSpeakerLabel ?? t('ai.localSpeaker');
+    this.localSpeakerId = options.localSpeakerId ?? LOCAL_SPEAKER_ID;
+    this.sharedChannel = options.sharedChannel ?? false;
+    this.recorder = options.recorder ?? null;
+    this.archive = options.archive ?? null;
+    this.analytics = options.analytics ?? null;
+    this.audioSettings = options.audioSettings ?? DEFAULT_AUDIO_SETTINGS;
+    this.pushToTalk = options.pushToTalk ?? false;
+    this.locale = options.locale ?? getLocale();
+    this.inputMode = options.inputMode ?? 'voice';
+    this.replyMode = options.replyMode ?? 'audio';
+    this.campaignBriefing = options.campaignBriefing ?? null;
+    if (options.inputStream) {
+      this.stream = options.inputStream;
+      this.ownsStream = false;
+    }
   }
 
   async connect(callbacks: LiveServiceCallbacks) {
     if (this.isConnected) return;
+    this.callbacks = callbacks;
+    this.isClosing = false;
+    callbacks.onStateChange?.(LiveConnectionState.CONNECTING);
 
     try {
       // 1. Initialize Audio Contexts
-      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      // Input runs at the device rate; the capture worklet resamples to 16 kHz
+      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      await loadCaptureWorklet(this.inputAudioContext);
       this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      await applySinkId(this.outputAudioContext, this.audioSettings.outputDeviceId);
       
       // Setup Analysers for visualization
       this.inputAnalyser = this.inputAudioContext.createAnalyser();
       this.outputAnalyser = this.outputAudioContext.createAnalyser();
-      this.inputAnalyser.fftSize = 32;
-      this.outputAnalyser.fftSize = 32;
+      this.inputAnalyser.fftSize = ANALYSER_FFT_SIZE;
+      this.outputAnalyser.fftSize = ANALYSER_FFT_SIZE;
+      this.inputMix = this.inputAudioContext.createGain();
+      this.inputMix.connect(this.inputAnalyser);
 
       this.outputNode = this.outputAudioContext.createGain();
       this.outputNode.connect(this.outputAudioContext.destination);
       this.outputNode.connect(this.outputAnalyser);
+      this.playback = await PlaybackEngine.create(this.outputAudioContext, this.outputNode, {
+        jitterTargetMs: this.jitterBufferMs,
+      });
+
+      // 2. Get Microphone Stream (unless the caller already shares one or the pilot only types)
+      if (!this.stream && this.inputMode !== 'text') {
+        try {
+          this.stream = await openMicrophone(this.audioSettings);
+        } catch (err) {
+          if (this.inputMode === 'voice') throw err;
+          console.warn("Microphone unavailable, continuing with typed messages only:", err);
+          callbacks.onMicrophoneUnavailable?.();
+        }
+      }
+      if (this.stream) {
+        this.addSpeaker(LOCAL_SPEAKER_ID, this.localSpeakerLabel, this.stream);
+        this.watchInputTrack();
+      }
+      this.analytics?.addSpeaker(this.localSpeakerId, this.localSpeakerLabel);
+      this.analytics?.addSpeaker(AI_SPEAKER_ID, this.persona.name);
 
-      // 2. Get Microphone Stream
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (this.recorder) {
+        await this.recorder.attach('local', this.inputAudioContext, this.inputMix);
+        await this.recorder.attach('remote', this.outputAudioContext, this.outputNode);
+      }
 
       // 3. Connect to Gemini Live
-      const model = 'gemini-2.5-flash-native-audio-preview-09-2025';
-      const config = {
-        model,
-        callbacks: {
-          onopen: () => {
-            console.log("Gemini Live Session Opened");
-            this.isConnected = true;
-            this.startAudioInputStreaming();
-            callbacks.onConnect?.();
-            this.startVolumeMonitoring(callbacks.onVolumeChange);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             this.handleServerMessage(message);
-          },
-          onclose: () => {
-            console.log("Gemini Live Session Closed");
-            this.disconnect();
-            callbacks.onDisconnect?.();
-          },
-          onerror: (err: any) => {
-            console.error("Gemini Live Error", err);
-            this.disconnect(); // Ensure we clean up on error
-            
-            // Translate common errors
-            let errorMessage = err.message || "Unknown error";
-            if (errorMessage.includes("503") || errorMessage.includes("unavailable")) {
-              errorMessage = "Serviço temporariamente indisponível (503). Por favor, tente novamente.";
-            }
-            callbacks.onError?.(new Error(errorMessage));
+      await this.openSession();
+
+    } catch (error) {
+      console.error("Failed to connect:", error);
+      callbacks.onError?.(error as Error);
+      this.disconnect();
+    }
+  }
+
+  // Opens a Live session on top of the existing audio graph, resuming the
+  // previous conversation when the server gave us a resumption handle
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration && !this.isClosing;
+
+    // Ephemeral tokens are single-use, so every session (and reconnect) gets a new one
+    let token: string;
+    try {
+      token = await this.tokenProvider();
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error("Failed to obtain Live token:", err);
+      this.handleConnectionLoss(err);
+      return;
+    }
+    if (!isCurrent()) return;
+
+    // Ephemeral tokens are only accepted by the v1alpha API
+    const ai = new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+
+    const textReplies = this.replyMode === 'text';
+    const model = textReplies ? TEXT_REPLY_MODEL : this.persona.model ?? DEFAULT_MODEL;
+    const config = {
+      model,
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          console.log("Gemini Live Session Opened");
+          this.isConnected = true;
+          this.reconnectAttempts = 0;
+          this.startAudioInputStreaming();
+          this.callbacks.onStateChange?.(LiveConnectionState.CONNECTED);
+          // A reconnect while the talk key is held reopens the turn on the new session
+          if (this.pushToTalk && this.isTalking) this.sendActivity('activityStart');
+
+          if (!this.hasOpened) {
+            this.hasOpened = true;
+            this.requestOpeningLine();
+            this.callbacks.onConnect?.();
+            this.startVolumeMonitoring(this.callbacks.onVolumeChange);
           }
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: `
-            Você é o Capitão Xylar, um comandante alienígena endurecido pela batalha.
-            O usuário é um diplomata humano tentando negociar uma passagem segura pelo seu setor.
-            Fale SEMPRE em Português do Brasil.
-            Seja cético, levemente sarcástico, mas justo. Não ceda facilmente.
-            Mantenha suas respostas curtas (máximo 2 frases) para um diálogo fluido.
-            Se o usuário for educado e convincente, concorde. Se for rude, ameace destruir a nave dele.
-          `,
+        onmessage: async (message: LiveServerMessage) => {
+          if (!isCurrent()) return;
+          this.handleServerMessage(message);
+        },
+        onclose: (e: CloseEvent) => {
+          if (!isCurrent()) return;
+          console.log(`Gemini Live Session Closed (code ${e.code}${e.reason ? `: ${e.reason}` : ''})`);
+          this.handleConnectionLoss(null, { code: e.code, reason: e.reason });
+        },
+        onerror: (err: any) => {
+          if (!isCurrent()) return;
+          console.error("Gemini Live Error", err);
+          this.handleConnectionLoss(err);
+        }
+      },
+      config: {
+        responseModalities: [textReplies ? Modality.TEXT : Modality.AUDIO],
+        inputAudioTranscription: {},
+        outputAudioTranscription: textReplies ? undefined : {},
+        sessionResumption: { handle: this.resumptionHandle ?? undefined },
+        tools: [{ functionDeclarations: NEGOTIATION_TOOLS }],
+        realtimeInputConfig: this.pushToTalk
+          ? { automaticActivityDetection: { disabled: true } }
+          : undefined,
+        speechConfig: textReplies ? undefined : {
+          languageCode: LOCALES[this.locale].speechLanguageCode,
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: this.persona.voiceName } },
         },
-      };
+        systemInstruction: buildSystemInstruction(this.persona, this.sharedChannel, this.locale, this.campaignBriefing),
+      },
+    };
 
-      this.sessionPromise = this.ai.live.connect(config);
+    this.sessionPromise = ai.live.connect(config);
+    this.sessionPromise.catch((err) => {
+      if (!isCurrent()) return;
+      console.error("Failed to open Gemini Live session:", err);
+      this.handleConnectionLoss(err);
+    });
+  }
 
-    } catch (error) {
-      console.error("Failed to connect:", error);
-      callbacks.onError?.(error as Error);
+  // Keeps the microphone and audio contexts alive and retries with exponential
+  // backoff. A session that never opened, or was closed for good by the server
+  // (bad key, quota...), fails immediately.
+  private handleConnectionLoss(err: any, close: SessionClose | null = null) {
+    this.isConnected = false;
+    this.awaitingTurnAudio = true;
+    // Speech still buffered belongs to the dropped session
+    this.playback?.flush();
+
+    const fatalClose = close !== null && FATAL_CLOSE_CODES.has(close.code);
+    if (!this.hasOpened || fatalClose || this.reconnectAttempts >= this.maxReconnectAttempts) {
       this.disconnect();
+      this.callbacks.onError?.(err ? toUserError(err) : toCloseError(close));
+      this.callbacks.onDisconnect?.();
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    console.log(`Reconnecting to Gemini Live in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+    this.callbacks.onStateChange?.(LiveConnectionState.RECONNECTING);
+
+    if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.openSession();
+    }, delay);
+  }
+
+  // The server announced it will drop us soon: switch to a fresh session now
+  private handleGoAway(timeLeft?: string) {
+    console.log(`Gemini Live goAway received (time left: ${timeLeft ?? 'unknown'})`);
+    const previous = this.sessionPromise;
+    this.isConnected = false;
+    this.callbacks.onStateChange?.(LiveConnectionState.RECONNECTING);
+    this.openSession();
+    previous?.then(session => session.close()).catch(() => {});
+  }
+
+  // Lets the commander speak first instead of waiting for the player's voice
+  private requestOpeningLine() {
+    this.sessionPromise?.then((session) => {
+      if (this.isConnected) {
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: 'O diplomata abriu o canal de comunicação.' }] }],
+          turnComplete: true,
+        });
+      }
+    }).catch(err => {
+      console.warn("Failed to request opening line:", err);
+    });
+  }
+
+  // Applies new device settings without dropping the session. A caller-owned
+  // microphone is not reopened here; pass its replacement as `inputStream`.
+  async applyAudioSettings(settings: AudioDeviceSettings, inputStream?: MediaStream) {
+    const previous = this.audioSettings;
+    this.audioSettings = settings;
+
+    if (this.outputAudioContext && settings.outputDeviceId !== previous.outputDeviceId) {
+      await applySinkId(this.outputAudioContext, settings.outputDeviceId);
+    }
+
+    if (inputStream) {
+      this.replaceInputStream(inputStream, false);
+    } else if (this.ownsStream && this.inputMode !== 'text' && this.inputAudioContext && inputSettingsChanged(previous, settings)) {
+      this.replaceInputStream(await openMicrophone(settings), true);
+    }
+  }
+
+  private replaceInputStream(stream: MediaStream, owned: boolean) {
+    const previous = this.stream;
+    const previousOwned = this.ownsStream;
+    if (!this.inputAudioContext) {
+      if (owned) stream.getTracks().forEach(track => track.stop());
+      return;
     }
+
+    this.stream = stream;
+    this.ownsStream = owned;
+    // The input mix (and the capture node behind it) keeps feeding the same session
+    this.addSpeaker(LOCAL_SPEAKER_ID, this.localSpeakerLabel, stream);
+    this.watchInputTrack();
+
+    if (previous && previous !== stream && previousOwned) {
+      previous.getTracks().forEach(track => track.stop());
+    }
+  }
+
+  // An unplugged microphone ends its track: reopen one (the default if needed)
+  private watchInputTrack() {
+    const track = this.stream?.getAudioTracks()[0];
+    if (!track || !this.ownsStream) return;
+    track.onended = () => {
+      if (this.stream?.getAudioTracks()[0] !== track) return;
+      console.warn("Microphone track ended, reopening");
+      openMicrophone(this.audioSettings)
+        .then(stream => this.replaceInputStream(stream, true))
+        .catch((err) => {
+          console.error("Failed to reopen microphone:", err);
+          this.callbacks.onError?.(new Error(t('errors.micDisconnected')));
+        });
+    };
+  }
+
+  // Adds a pilot to the audio the commander hears. Remote pilots of a P2P call
+  // are mixed with the microphone into the single Live input stream.
+  addSpeaker(id: string, label: string, stream: MediaStream) {
+    if (!this.inputAudioContext || !this.inputMix) return;
+    this.removeSpeaker(id);
+
+    const source = this.inputAudioContext.createMediaStreamSource(stream);
+    const analyser = this.inputAudioContext.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+    source.connect(this.inputMix);
+    this.speakers.set(id, { label, source, analyser });
+  }
+
+  removeSpeaker(id: string) {
+    const speaker = this.speakers.get(id);
+    if (!speaker) return;
+    speaker.source.disconnect();
+    speaker.analyser.disconnect();
+    this.speakers.delete(id);
+    if (this.activeSpeakerId === id) this.activeSpeakerId = null;
+  }
+
+  getPersonaId(): string {
+    return this.persona.id;
+  }
+
+  // The commander's voice as a stream, to be sent to the other pilots of a P2P call
+  getOutputStream(): MediaStream | null {
+    if (!this.outputAudioContext || !this.outputNode) return null;
+    if (!this.outputStreamNode) {
+      this.outputStreamNode = this.outputAudioContext.createMediaStreamDestination();
+      this.outputNode.connect(this.outputStreamNode);
+    }
+    return this.outputStreamNode.stream;
+  }
+
+  // The visualizers read these every frame; null until connect() builds the graph
+  getInputAnalyser(): AnalyserNode | null {
+    return this.inputAnalyser;
+  }
+
+  getOutputAnalyser(): AnalyserNode | null {
+    return this.outputAnalyser;
+  }
+
+  // Push-to-talk: opens the player's turn. Also interrupts the commander.
+  startTalking() {
+    if (!this.pushToTalk || this.isTalking) return;
+    this.isTalking = true;
+    this.sendActivity('activityStart');
+  }
+
+  // Push-to-talk: closes the player's turn so the commander answers
+  stopTalking() {
+    if (!this.pushToTalk || !this.isTalking) return;
+    this.isTalking = false;
+    this.sendActivity('activityEnd');
+  }
+
+  // Stops sending microphone audio; the capture graph keeps running so
+  // unmuting is instant
+  setMuted(muted: boolean) {
+    this.isMuted = muted;
+  }
+
+  private sendActivity(signal: 'activityStart' | 'activityEnd') {
+    this.sessionPromise?.then((session) => {
+      if (this.isConnected) {
+        session.sendRealtimeInput({ [signal]: {} });
+      }
+    }).catch(err => {
+      console.warn(`Failed to send ${signal}:`, err);
+    });
+  }
+
+  // Whether microphone audio currently reaches the session
+  private isSendingAudio(): boolean {
+    return this.stream !== null && !this.isMuted && (!this.pushToTalk || this.isTalking);
+  }
+
+  // Typed diplomacy: sent as a complete user turn, so the commander answers it
+  // like a spoken one. Returns false when there is no open session.
+  sendText(text: string): boolean {
+    const trimmed = text.trim();
+    if (!trimmed || !this.isConnected || !this.sessionPromise) return false;
+
+    this.sessionPromise.then((session) => {
+      if (this.isConnected) {
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: trimmed }] }],
+          turnComplete: true,
+        });
+      }
+    }).catch(err => {
+      console.warn("Failed to send text message:", err);
+    });
+
+    // Whatever was transcribed before belongs to an earlier turn
+    this.flushTranscript('user');
+    this.emitTranscript('user', trimmed);
+    return true;
+  }
+
+  // The Live input is a single mixed stream, so the commander is told by text
+  // whenever a different pilot becomes the loudest one
+  private trackActiveSpeaker() {
+    if (this.speakers.size < 2) return;
+
+    let loudestId: string | null = null;
+    let loudestLevel = SPEAKER_ACTIVITY_THRESHOLD;
+    this.speakers.forEach((speaker, id) => {
+      const level = measureLevel(speaker.analyser);
+      if (level > loudestLevel) {
+        loudestId = id;
+        loudestLevel = level;
+      }
+    });
+    if (!loudestId || loudestId === this.activeSpeakerId) return;
+
+    // What was transcribed so far belongs to the previous speaker
+    this.flushTranscript('user');
+    this.activeSpeakerId = loudestId;
+    const label = this.speakers.get(loudestId)!.label;
+
+    this.sessionPromise?.then((session) => {
+      if (this.isConnected) {
+        session.sendRealtimeInput({ text: `[Fala agora: ${label}]` });
+      }
+    }).catch(err => {
+      console.warn("Failed to announce speaker:", err);
+    });
   }
 
   private startAudioInputStreaming() {
-    if (!this.inputAudioContext || !this.stream || !this.sessionPromise) return;
+    if (!this.inputAudioContext || !this.inputMix || !this.sessionPromise) return;
+    // After a reconnect the existing capture node already feeds the new session
+    if (this.processor) return;
 
-    this.inputSource = this.inputAudioContext.createMediaStreamSource(this.stream);
-    this.inputSource.connect(this.inputAnalyser!); 
-    
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
+    this.processor = createCaptureNode(this.inputAudioContext, {
+      targetSampleRate: GEMINI_INPUT_SAMPLE_RATE,
+      chunkSize: this.captureChunkSize,
+    });
     
-    this.processor.onaudioprocess = (e) => {
+    // The worklet posts 16-bit PCM already resampled to 16 kHz
+    this.processor.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
       // Safety check: stop processing if disconnected
       if (!this.isConnected || !this.sessionPromise) return;
+      if (!this.isSendingAudio()) return;
+      this.trackActiveSpeaker();
 
-      const inputData = e.inputBuffer.getChannelData(0);
-      const pcmBlob = createPcmBlob(inputData);
+      const samples = new Int16Array(e.data);
+      this.archive?.addAudio('mic', samples, GEMINI_INPUT_SAMPLE_RATE);
+      const pcmBlob = int16ToPcmBlob(samples, GEMINI_INPUT_SAMPLE_RATE);
       
       this.sessionPromise.then((session) => {
         // Double check inside promise in case state changed
@@ -138,51 +670,154 @@ export class LiveService {
       });
     };
 
-    this.inputSource.connect(this.processor);
+    this.inputMix.connect(this.processor);
+    // The worklet outputs silence; connecting it keeps it pulled by the graph
     this.processor.connect(this.inputAudioContext.destination);
   }
 
   private async handleServerMessage(message: LiveServerMessage) {
     if (!this.outputAudioContext || !this.outputNode) return;
 
+    // Handle Session Resumption
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) {
+      this.resumptionHandle = resumption.newHandle;
+    }
+
+    if (message.goAway) {
+      this.handleGoAway(message.goAway.timeLeft);
+      return;
+    }
+
+    // Handle Tool Calls (negotiation outcome)
+    if (message.toolCall) {
+      this.handleToolCall(message.toolCall);
+    }
+
     // Handle Audio
     const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-    if (base64Audio) {
-      this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
-      
+    if (base64Audio && this.playback) {
       try {
-        const rawBytes = decodeBase64(base64Audio);
-        const audioBuffer = pcmToAudioBuffer(rawBytes, this.outputAudioContext);
-        
-        const source = this.outputAudioContext.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(this.outputNode);
-        
-        source.addEventListener('ended', () => {
-          this.audioSources.delete(source);
-        });
-
-        source.start(this.nextStartTime);
-        this.nextStartTime += audioBuffer.duration;
-        this.audioSources.add(source);
+        if (this.awaitingTurnAudio) {
+          this.playback.markTurnStart();
+          this.awaitingTurnAudio = false;
+          this.analytics?.markResponseStart(this.localSpeakerId);
+        }
+        const bytes = decodeBase64(base64Audio);
+        this.archive?.addAudio('ai', pcmBytesToInt16(bytes), GEMINI_OUTPUT_SAMPLE_RATE);
+        this.playback.enqueue(bytes);
       } catch (e) {
         console.error("Error decoding audio:", e);
       }
     }
 
+    // Text replies arrive as model turn parts instead of an output transcription
+    if (this.replyMode === 'text') {
+      const replyText = (message.serverContent?.modelTurn?.parts ?? [])
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text)
+        .join('');
+      if (replyText) {
+        if (this.awaitingTurnAudio) {
+          this.awaitingTurnAudio = false;
+          this.analytics?.markResponseStart(this.localSpeakerId);
+        }
+        this.flushTranscript('user');
+        this.pendingAiText += replyText;
+      }
+    }
+
+    // Handle Transcription fragments
+    const inputText = message.serverContent?.inputTranscription?.text;
+    if (inputText) {
+      this.pendingUserText += inputText;
+    }
+
+    const outputText = message.serverContent?.outputTranscription?.text;
+    if (outputText) {
+      // The AI started answering, so whatever the user said is a finished turn
+      this.flushTranscript('user');
+      this.pendingAiText += outputText;
+    }
+
     // Handle Interruption
     if (message.serverContent?.interrupted) {
       console.log("Audio Interrupted");
-      this.audioSources.forEach(src => {
-        try { src.stop(); } catch(e) {}
+      this.awaitingTurnAudio = true;
+      this.flushTranscript('ai');
+      this.archive?.markInterrupted();
+      this.analytics?.markInterruption(this.localSpeakerId);
+      this.playback?.flush().then((report) => {
+        console.log(`Barge-in after ${Math.round(report.playedMs)}ms of speech (${Math.round(report.discardedMs)}ms dropped)`);
+        this.callbacks.onInterrupted?.(report);
       });
-      this.audioSources.clear();
-      this.nextStartTime = 0;
+    }
+
+    if (message.serverContent?.turnComplete) {
+      this.awaitingTurnAudio = true;
+      this.flushTranscript('user');
+      this.flushTranscript('ai');
     }
   }
 
+  private handleToolCall(toolCall: LiveServerToolCall) {
+    const functionCalls = toolCall.functionCalls ?? [];
+    if (functionCalls.length === 0 || !this.sessionPromise) return;
+
+    let outcome: NegotiationOutcome | null = null;
+    const functionResponses = functionCalls.map((call) => {
+      const result = call.name ? OUTCOME_TOOLS[call.name] : undefined;
+      if (!result) {
+        return { id: call.id, name: call.name, response: { error: `Unknown tool: ${call.name}` } };
+      }
+      // Only the first decision counts
+      if (!outcome) {
+        const reason = typeof call.args?.reason === 'string' ? call.args.reason : '';
+        outcome = { result, reason };
+      }
+      return { id: call.id, name: call.name, response: { output: 'ok' } };
+    });
+
+    this.sessionPromise.then((session) => {
+      if (this.isConnected) {
+        session.sendToolResponse({ functionResponses });
+      }
+    }).catch(err => {
+      console.warn("Failed to send tool response:", err);
+    });
+
+    if (outcome) {
+      this.callbacks.onOutcome?.(outcome);
+    }
+  }
+
+  private flushTranscript(sender: MessageLog['sender']) {
+    const text = (sender === 'user' ? this.pendingUserText : this.pendingAiText).trim();
+    if (sender === 'user') {
+      this.pendingUserText = '';
+    } else {
+      this.pendingAiText = '';
+    }
+    if (!text) return;
+
+    const speaker = sender === 'user' && this.speakers.size > 1 && this.activeSpeakerId
+      ? this.speakers.get(this.activeSpeakerId)?.label
+      : undefined;
+    this.emitTranscript(sender, text, speaker);
+  }
+
+  private emitTranscript(sender: MessageLog['sender'], text: string, speaker?: string) {
+    this.transcriptCounter += 1;
+    this.callbacks.onTranscript?.({
+      id: `${Date.now()}-${this.transcriptCounter}`,
+      sender,
+      text,
+      speaker,
+    });
+  }
+
   private startVolumeMonitoring(callback?: (inVol: number, outVol: number) => void) {
-    if (!callback) return;
+    if (!callback && !this.archive && !this.analytics) return;
     
     // Clear existing interval if any
     if (this.volumeInterval) clearInterval(this.volumeInterval);
@@ -193,38 +828,63 @@ export class LiveService {
       let inputVol = 0;
       let outputVol = 0;
 
-      if (this.inputAnalyser) {
-        const data = new Uint8Array(this.inputAnalyser.frequencyBinCount);
-        this.inputAnalyser.getByteFrequencyData(data);
-        inputVol = data.reduce((a, b) => a + b) / data.length;
+      if (this.inputAnalyser && this.isSendingAudio()) {
+        inputVol = measureByteLevel(this.inputAnalyser);
       }
 
       if (this.outputAnalyser) {
-        const data = new Uint8Array(this.outputAnalyser.frequencyBinCount);
-        this.outputAnalyser.getByteFrequencyData(data);
-        outputVol = data.reduce((a, b) => a + b) / data.length;
+        outputVol = measureByteLevel(this.outputAnalyser);
       }
 
-      callback(inputVol, outputVol);
+      this.archive?.addLevels(inputVol, outputVol);
+      // On a shared channel the input mixes the whole fleet, whose pilots the call measures one by one
+      this.analytics?.sample(this.sharedChannel
+        ? { [AI_SPEAKER_ID]: outputVol }
+        : { [this.localSpeakerId]: inputVol, [AI_SPEAKER_ID]: outputVol });
+      callback?.(inputVol, outputVol);
     }, 100);
   }
 
   disconnect() {
+    this.isClosing = true;
     this.isConnected = false;
+    this.hasOpened = false;
+    this.reconnectAttempts = 0;
+    this.resumptionHandle = null;
+    this.isTalking = false;
+    this.isMuted = false;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.sessionPromise) {
+      this.sessionPromise.then(session => session.close()).catch(() => {});
+      this.sessionPromise = null;
+    }
+    this.pendingUserText = '';
+    this.pendingAiText = '';
     
     if (this.stream) {
-      this.stream.getTracks().forEach(track => track.stop());
+      if (this.ownsStream) {
+        this.stream.getAudioTracks().forEach(track => { track.onended = null; });
+        this.stream.getTracks().forEach(track => track.stop());
+      }
       this.stream = null;
     }
     
     if (this.processor) {
+      this.processor.port.onmessage = null;
       this.processor.disconnect();
       this.processor = null;
     }
     
-    if (this.inputSource) {
-      this.inputSource.disconnect();
-      this.inputSource = null;
+    this.speakers.forEach((_, id) => this.removeSpeaker(id));
+    this.activeSpeakerId = null;
+    if (this.inputMix) {
+      this.inputMix.disconnect();
+      this.inputMix = null;
     }
 
     if (this.inputAudioContext) {
@@ -232,6 +892,13 @@ export class LiveService {
       this.inputAudioContext = null;
     }
     
+    if (this.playback) {
+      this.playback.dispose();
+      this.playback = null;
+    }
+    this.awaitingTurnAudio = true;
+
+    this.outputStreamNode = null;
     if (this.outputAudioContext) {
       this.outputAudioContext.close();
       this.outputAudioContext = null;
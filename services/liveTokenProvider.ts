@@ -0,0 +1,37 @@
+import { t } from '../i18n';
+
+// Supplies a fresh single-use Live API token for every session LiveService opens
+// (including reconnects), so the real API key never reaches the browser.
+export type LiveTokenProvider = () => Promise<string>;
+
+interface LiveTokenResponse {
+  token: string;
+  expireTime: string;
+  stub?: boolean;
+}
+
+export function createTokenProvider(endpoint: string): LiveTokenProvider {
+  // The token server may live on another origin of the same site; its session cookie must go along
+  const request = () => fetch(endpoint, { method: 'POST', cache: 'no-store', credentials: 'include' });
+
+  return async () => {
+    let response: Response;
+    try {
+      response = await request();
+      // The first request of a browser session only receives the session cookie
+      if (response.status === 401) response = await request();
+    } catch (e) {
+      throw new Error(t('errors.tokenServerUnreachable'));
+    }
+
+    if (!response.ok) {
+      throw new Error(t('errors.tokenFailed', { status: response.status }));
+    }
+
+    const body: LiveTokenResponse = await response.json();
+    if (body.stub) {
+      console.warn("Using offline stub Live token; Gemini will reject the session.");
+    }
+    return body.token;
+  };
+}
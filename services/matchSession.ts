@@ -0,0 +1,251 @@
+import { MatchEvent, MatchPhase, MatchResult, MatchRole, MatchScenario, MatchState, PeerMessage } from '../types';
+import { getMatchScenario, MATCH_SCENARIOS } from '../data/matchScenarios';
+
+const TIMEOUT_CHECK_INTERVAL_MS = 500;
+
+function resolve(state: MatchState, result: MatchResult): MatchState {
+  return { ...state, phase: MatchPhase.RESOLVED, proposal: null, result };
+}
+
+// Roles that ended within their hidden limit. Without a deal nobody wins.
+export function computeWinners(scenario: MatchScenario, amount: number | null): MatchRole[] {
+  if (amount === null) return [];
+  const winners: MatchRole[] = [];
+  if (amount >= scenario.briefings.commander.limit) winners.push('commander');
+  if (amount <= scenario.briefings.diplomat.limit) winners.push('diplomat');
+  return winners;
+}
+
+// Rebuilds an intent sent by the opponent with only what a guest may decide:
+// the sender is the peer the message came from and times are the host's
+function sanitizeIntent(event: MatchEvent, fromId: string): MatchEvent | null {
+  switch (event.kind) {
+    case 'ready':
+      return { kind: 'ready', peerId: fromId, at: Date.now() };
+    case 'propose':
+      if (typeof event.proposalId !== 'string' || !Number.isFinite(event.amount)) return null;
+      return { kind: 'propose', peerId: fromId, proposalId: event.proposalId, amount: event.amount };
+    case 'confirm':
+      if (typeof event.proposalId !== 'string') return null;
+      return { kind: 'confirm', peerId: fromId, proposalId: event.proposalId };
+    case 'walk-away':
+      return { kind: 'walk-away', peerId: fromId };
+    default:
+      // start and timeout are decided by the host alone
+      return null;
+  }
+}
+
+// Shared state machine of a negotiation match. Both pilots apply the same
+// ordered events (the host's), so both end in the same state. Events that are
+// not valid in the current phase are ignored.
+export function matchReducer(state: MatchState | null, event: MatchEvent): MatchState | null {
+  if (event.kind === 'start') {
+    if (state && state.phase !== MatchPhase.RESOLVED) return state;
+    if (!getMatchScenario(event.scenarioId)) return state;
+    return {
+      phase: MatchPhase.BRIEFING,
+      scenarioId: event.scenarioId,
+      roles: event.roles,
+      ready: [],
+      deadline: null,
+      proposal: null,
+      result: null,
+    };
+  }
+
+  if (!state) return state;
+  const scenario = getMatchScenario(state.scenarioId);
+  if (!scenario) return state;
+
+  switch (event.kind) {
+    case 'ready': {
+      if (state.phase !== MatchPhase.BRIEFING || !state.roles[event.peerId]) return state;
+      if (state.ready.includes(event.peerId)) return state;
+      const ready = [...state.ready, event.peerId];
+      const allReady = Object.keys(state.roles).every(id => ready.includes(id));
+      if (!allReady) return { ...state, ready };
+      return {
+        ...state,
+        ready,
+        phase: MatchPhase.NEGOTIATING,
+        deadline: event.at + scenario.roundSeconds * 1000,
+      };
+    }
+
+    case 'propose': {
+      if (state.phase !== MatchPhase.NEGOTIATING || !state.roles[event.peerId]) return state;
+      if (!Number.isFinite(event.amount) || event.amount < 0) return state;
+      return { ...state, proposal: { id: event.proposalId, by: event.peerId, amount: event.amount } };
+    }
+
+    case 'confirm': {
+      if (state.phase !== MatchPhase.NEGOTIATING || !state.roles[event.peerId]) return state;
+      // The proposer already agreed; the other pilot must confirm that exact proposal
+      if (!state.proposal || state.proposal.id !== event.proposalId || state.proposal.by === event.peerId) return state;
+      const amount = state.proposal.amount;
+      return resolve(state, { deal: true, amount, reason: 'agreement', winners: computeWinners(scenario, amount) });
+    }
+
+    case 'walk-away': {
+      if (state.phase === MatchPhase.RESOLVED || !state.roles[event.peerId]) return state;
+      return resolve(state, { deal: false, amount: null, reason: 'walk-away', winners: [] });
+    }
+
+    case 'timeout': {
+      if (state.phase !== MatchPhase.NEGOTIATING || state.deadline === null || event.at < state.deadline) return state;
+      return resolve(state, { deal: false, amount: null, reason: 'timeout', winners: [] });
+    }
+  }
+}
+
+const generateEventId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Syncs a match over the P2P data channel. The pilot who starts the match is
+// the host: it applies every event (its own and the guest's intents) and
+// broadcasts them in order, so both peers run the same reducer on the same
+// sequence. The host also owns the round timer.
+export class MatchSession {
+  private myId: string;
+  private send: (message: PeerMessage) => boolean;
+  private onChange: (state: MatchState | null) => void;
+
+  private state: MatchState | null = null;
+  private hostId: string | null = null;
+  private seq = 0;
+  private lastSeq = -1;
+  private timeoutInterval: number | null = null;
+
+  constructor(myId: string, send: (message: PeerMessage) => boolean, onChange: (state: MatchState | null) => void) {
+    this.myId = myId;
+    this.send = send;
+    this.onChange = onChange;
+  }
+
+  get isHost(): boolean {
+    return this.hostId === this.myId;
+  }
+
+  getState(): MatchState | null {
+    return this.state;
+  }
+
+  // Starts a match against one opponent with a random scenario and random roles
+  start(opponentId: string) {
+    if (this.state && this.state.phase !== MatchPhase.RESOLVED) return;
+
+    const scenario = MATCH_SCENARIOS[Math.floor(Math.random() * MATCH_SCENARIOS.length)];
+    const iAmCommander = Math.random() < 0.5;
+    this.hostId = this.myId;
+    this.seq = 0;
+    this.apply({
+      kind: 'start',
+      scenarioId: scenario.id,
+      roles: {
+        [this.myId]: iAmCommander ? 'commander' : 'diplomat',
+        [opponentId]: iAmCommander ? 'diplomat' : 'commander',
+      },
+      at: Date.now(),
+    });
+  }
+
+  markReady() {
+    this.dispatch({ kind: 'ready', peerId: this.myId, at: Date.now() });
+  }
+
+  propose(amount: number) {
+    this.dispatch({ kind: 'propose', peerId: this.myId, proposalId: generateEventId(), amount });
+  }
+
+  confirm(proposalId: string) {
+    this.dispatch({ kind: 'confirm', peerId: this.myId, proposalId });
+  }
+
+  walkAway() {
+    this.dispatch({ kind: 'walk-away', peerId: this.myId });
+  }
+
+  // Returns true if the message belonged to the match protocol
+  handleMessage(message: PeerMessage, fromId: string): boolean {
+    if (message.type === 'match-intent') {
+      // Only the host accepts intents, and only from the opponent in this match
+      const event = this.isHost && this.state?.roles[fromId] ? sanitizeIntent(message.event, fromId) : null;
+      if (event) this.apply(event);
+      return true;
+    }
+
+    if (message.type === 'match-sync') {
+      if (message.event.kind === 'start') {
+        // Both pilots started at once: the lower id keeps hosting
+        if (this.isHost && this.state?.phase !== MatchPhase.RESOLVED && this.myId < fromId) return true;
+        this.hostId = fromId;
+        this.lastSeq = -1;
+      } else if (fromId !== this.hostId || message.seq <= this.lastSeq) {
+        return true;
+      }
+      this.lastSeq = message.seq;
+      // A new match replaces whatever this peer had locally
+      const base = message.event.kind === 'start' ? null : this.state;
+      this.setState(matchReducer(base, message.event));
+      return true;
+    }
+
+    return false;
+  }
+
+  reset() {
+    this.stopTimeoutCheck();
+    this.state = null;
+    this.hostId = null;
+    this.seq = 0;
+    this.lastSeq = -1;
+    this.onChange(null);
+  }
+
+  private dispatch(event: MatchEvent) {
+    if (!this.state) return;
+    if (this.isHost) {
+      this.apply(event);
+    } else {
+      this.send({ type: 'match-intent', event });
+    }
+  }
+
+  // Host only: run the event through the reducer and broadcast it if it changed anything
+  private apply(event: MatchEvent) {
+    const next = matchReducer(this.state, event);
+    if (next === this.state) return;
+    this.send({ type: 'match-sync', seq: this.seq++, event });
+    this.setState(next);
+  }
+
+  private setState(next: MatchState | null) {
+    if (next === this.state) return;
+    this.state = next;
+
+    if (this.isHost && next?.phase === MatchPhase.NEGOTIATING) {
+      this.startTimeoutCheck();
+    } else {
+      this.stopTimeoutCheck();
+    }
+
+    this.onChange(next);
+  }
+
+  private startTimeoutCheck() {
+    if (this.timeoutInterval) return;
+    this.timeoutInterval = window.setInterval(() => {
+      const deadline = this.state?.deadline;
+      if (deadline && Date.now() >= deadline) {
+        this.apply({ kind: 'timeout', at: Date.now() });
+      }
+    }, TIMEOUT_CHECK_INTERVAL_MS);
+  }
+
+  private stopTimeoutCheck() {
+    if (this.timeoutInterval) {
+      clearInterval(this.timeoutInterval);
+      this.timeoutInterval = null;
+    }
+  }
+}
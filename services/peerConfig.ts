@@ -0,0 +1,35 @@
+import { PeerServiceConfig } from '../types';
+
+// Mount path of the bundled signaling server (server/signalingServer.js)
+const DEFAULT_SELF_HOSTED_PATH = '/peerjs';
+
+// Builds the PeerService configuration from the PEER_* variables injected by vite.config.ts
+export function loadPeerConfig(): PeerServiceConfig {
+  const config: PeerServiceConfig = {};
+
+  if (process.env.PEER_HOST) config.host = process.env.PEER_HOST;
+  if (process.env.PEER_PORT) config.port = Number(process.env.PEER_PORT);
+  // A self-hosted server gets the bundled server's path; the PeerJS cloud keeps its own
+  if (process.env.PEER_PATH) config.path = process.env.PEER_PATH;
+  else if (config.host) config.path = DEFAULT_SELF_HOSTED_PATH;
+  if (process.env.PEER_KEY) config.key = process.env.PEER_KEY;
+  if (process.env.PEER_SECURE) config.secure = process.env.PEER_SECURE === 'true';
+  if (process.env.PEER_RING_TIMEOUT_MS) config.ringTimeoutMs = Number(process.env.PEER_RING_TIMEOUT_MS);
+
+  if (process.env.PEER_ICE_SERVERS) {
+    try {
+      config.iceServers = JSON.parse(process.env.PEER_ICE_SERVERS);
+    } catch (e) {
+      console.error("Invalid PEER_ICE_SERVERS JSON, using default ICE servers", e);
+    }
+  }
+
+  return config;
+}
+
+export function describeSignalingServer(config: PeerServiceConfig): string {
+  if (!config.host) return 'PeerJS Cloud';
+  const scheme = config.secure ? 'wss' : 'ws';
+  const port = config.port ? `:${config.port}` : '';
+  return `${scheme}://${config.host}${port}${config.path ?? '/'}`;
+}
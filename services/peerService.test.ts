@@ -0,0 +1,125 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PeerMessage } from '../types';
+import { PeerService, PeerServiceCallbacks } from './peerService';
+
+type Handler = (...args: any[]) => void;
+
+// Minimal stand-ins for the PeerJS objects the service listens to
+class FakeEmitter {
+  private handlers = new Map<string, Handler[]>();
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  emit(event: string, ...args: any[]) {
+    this.handlers.get(event)?.forEach(handler => handler(...args));
+  }
+}
+
+class FakeDataConnection extends FakeEmitter {
+  open = false;
+  sent: unknown[] = [];
+
+  constructor(public peer: string) {
+    super();
+  }
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.open = false;
+  }
+
+  receive(data: unknown) {
+    this.emit('data', data);
+  }
+}
+
+class FakeMediaConnection extends FakeEmitter {
+  constructor(public peer: string) {
+    super();
+  }
+
+  answer() {}
+
+  close() {}
+}
+
+class FakePeer extends FakeEmitter {
+  static last: FakePeer;
+
+  constructor(public id: string) {
+    super();
+    FakePeer.last = this;
+  }
+
+  destroy() {}
+}
+
+const chat: PeerMessage = { type: 'chat', id: 'm1', text: 'hello', sentAt: 0 };
+
+describe('PeerService with a caller still ringing', () => {
+  let service: PeerService;
+  let callbacks: PeerServiceCallbacks;
+  let conn: FakeDataConnection;
+
+  beforeEach(async () => {
+    vi.stubGlobal('Peer', FakePeer);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    callbacks = {
+      onIncomingCall: vi.fn(),
+      onParticipantJoined: vi.fn(),
+      onParticipantLeft: vi.fn(),
+      onClose: vi.fn(),
+      onMessage: vi.fn(),
+      onDataChannelChange: vi.fn(),
+      onCallEnded: vi.fn(),
+    };
+    service = new PeerService();
+    await service.init('alpha', callbacks);
+
+    // The caller opens its data channel alongside the call
+    conn = new FakeDataConnection('bravo');
+    FakePeer.last.emit('connection', conn);
+    FakePeer.last.emit('call', new FakeMediaConnection('bravo'));
+    conn.open = true;
+    conn.emit('open');
+  });
+
+  afterEach(() => {
+    service.rejectCall('bravo');
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('rings without reporting an open channel', () => {
+    expect(callbacks.onIncomingCall).toHaveBeenCalledWith('bravo');
+    expect(callbacks.onDataChannelChange).not.toHaveBeenCalled();
+  });
+
+  it('does not send fleet messages to the caller', () => {
+    expect(service.sendMessage(chat)).toBe(false);
+    expect(conn.sent).toEqual([]);
+  });
+
+  it('ignores chat from the caller', () => {
+    conn.receive(chat);
+    expect(callbacks.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('still handles call signals from the caller', () => {
+    conn.receive({ type: 'call-signal', signal: 'hangup' });
+    expect(callbacks.onCallEnded).toHaveBeenCalledWith('bravo', 'cancelled');
+  });
+
+  it('hangs up on the caller when we leave', () => {
+    service.endCall();
+    expect(conn.sent).toEqual([{ type: 'call-signal', signal: 'hangup' }]);
+    expect(callbacks.onCallEnded).toHaveBeenCalledWith('bravo', 'local-hangup');
+  });
+});
@@ -1,50 +1,200 @@
+import { SessionRecorder } from './sessionRecorder';
+import { ConversationAnalytics } from './conversationAnalytics';
+import { applySinkId, DEFAULT_AUDIO_SETTINGS, inputSettingsChanged, openMicrophone } from '../utils/audioDevices';
+import { ANALYSER_FFT_SIZE, measureByteLevel } from '../utils/audioUtils';
+import { computeConnectionQuality, readStatsSnapshot, StatsSnapshot } from '../utils/connectionStats';
+import { createVoiceEffectChain, VoiceEffectChain } from '../utils/voiceEffects';
+import { AudioDeviceSettings, CallEndReason, CallSignalMessage, ConnectionQuality, IceCandidateType, IceDiagnostics, PeerMessage, PeerServiceConfig, VoiceEffect } from '../types';
+import { MessageKey, t } from '../i18n';
 
 // Interface for the global PeerJS object loaded via CDN
 declare const Peer: any;
 
+const ICE_GATHERING_TIMEOUT_MS = 5000;
+const DEFAULT_RING_TIMEOUT_MS = 30000;
+const STATS_INTERVAL_MS = 2000;
+
+const SIGNAL_END_REASONS: Record<CallSignalMessage['signal'], CallEndReason> = {
+  rejected: 'rejected',
+  busy: 'busy',
+  hangup: 'remote-hangup',
+};
+
+// PeerJS errors that are not about a single call
+const PEER_ERROR_MESSAGES: Record<string, MessageKey> = {
+  'unavailable-id': 'errors.peerIdTaken',
+  'invalid-id': 'errors.peerIdInvalid',
+  'browser-incompatible': 'errors.webrtcUnsupported',
+  'network': 'errors.signalingUnreachable',
+  'server-error': 'errors.signalingUnreachable',
+  'socket-error': 'errors.signalingUnreachable',
+  'socket-closed': 'errors.signalingClosed',
+  'disconnected': 'errors.signalingClosed',
+};
+
+// Pilots in one fleet channel, including ourselves
+export const MAX_FLEET_SIZE = 6;
+
+// Guards against malformed or foreign payloads on the data channel
+function isPeerMessage(data: any): data is PeerMessage {
+  if (!data || typeof data !== 'object') return false;
+  switch (data.type) {
+    case 'chat':
+      return typeof data.id === 'string' && typeof data.text === 'string';
+    case 'typing':
+      return typeof data.isTyping === 'boolean';
+    case 'game-event':
+      return typeof data.id === 'string' && ['offer', 'accept', 'reject'].includes(data.kind);
+    case 'roster':
+      return Array.isArray(data.peerIds) && data.peerIds.every((id: unknown) => typeof id === 'string');
+    case 'announce':
+      return typeof data.peerId === 'string';
+    case 'match-intent':
+      return !!data.event && typeof data.event.kind === 'string';
+    case 'match-sync':
+      return typeof data.seq === 'number' && !!data.event && typeof data.event.kind === 'string';
+    case 'call-signal':
+      return ['rejected', 'busy', 'hangup'].includes(data.signal);
+    case 'commander':
+      return typeof data.personaId === 'string' && ['joined', 'left', 'outcome'].includes(data.status);
+    default:
+      return false;
+  }
+}
+
+interface Participant {
+  id: string;
+  call: any;
+  stream: MediaStream | null;
+  source: MediaStreamAudioSourceNode | null;
+  analyser: AnalyserNode | null;
+  // Previous getStats() counters, to turn them into rates
+  lastStats: StatsSnapshot | null;
+}
+
+export interface PeerServiceCallbacks {
+  // Someone called while we are not in the fleet channel yet
+  onIncomingCall: (callerId: string) => void;
+  onParticipantJoined: (peerId: string, stream: MediaStream) => void;
+  onParticipantLeft: (peerId: string) => void;
+  // The last participant left (or the only call attempt failed)
+  onClose: () => void;
+  onMessage?: (message: PeerMessage, fromId: string) => void;
+  onDataChannelChange?: (peerId: string, isOpen: boolean) => void;
+  // Every call, incoming or outgoing, answered or not, ends here exactly once
+  onCallEnded?: (peerId: string, reason: CallEndReason) => void;
+  // Problems with the signaling connection itself
+  onError?: (message: string) => void;
+  // The microphone was reopened (new device or settings, or the old one was unplugged)
+  onLocalStreamChange?: (stream: MediaStream) => void;
+  // Network quality of each connected call, every few seconds
+  onConnectionQuality?: (peerId: string, quality: ConnectionQuality) => void;
+}
+
 export class PeerService {
   private peer: any;
   private myStream: MediaStream | null = null;
-  private remoteStream: MediaStream | null = null;
-  private call: any = null;
+  private callbacks: PeerServiceCallbacks | null = null;
+
+  // Mesh "fleet channel": one media call and one data connection per remote pilot.
+  // A caller's data connection is kept from the start, but until its call is
+  // answered (it is a participant) the channel only carries call signals.
+  private participants = new Map<string, Participant>();
+  private pendingCalls = new Map<string, any>();
+  private dataConnections = new Map<string, any>();
+
+  // Call lifecycle: ringing timers, why each call is ending, and signals
+  // waiting for the caller's data channel to open
+  private ringTimers = new Map<string, number>();
+  private endReasons = new Map<string, CallEndReason>();
+  private pendingSignals = new Map<string, CallSignalMessage['signal']>();
+  // Newcomers announced by a fleet member; their calls are let in without ringing
+  private expectedPeers = new Set<string>();
   
   // Audio Context for analysis
   private audioContext: AudioContext | null = null;
+  private inputSource: MediaStreamAudioSourceNode | null = null;
   private inputAnalyser: AnalyserNode | null = null;
-  private remoteAnalyser: AnalyserNode | null = null;
   private volumeInterval: number | null = null;
+  private statsInterval: number | null = null;
+
+  // Our voice on its way out: microphone -> voiceIn -> effect -> voiceOut, which
+  // feeds the outgoing mix and the local monitor
+  private voiceEffect: VoiceEffect = 'none';
+  private voiceMonitor = false;
+  private voiceChain: VoiceEffectChain | null = null;
+  private voiceIn: GainNode | null = null;
+  private voiceOut: GainNode | null = null;
+  private monitorGain: GainNode | null = null;
 
-  constructor() {}
+  // Extra audio mixed into what the fleet hears from us (e.g. the AI commander)
+  private sharedSource: MediaStreamAudioSourceNode | null = null;
+  private outgoingMix: MediaStreamAudioDestinationNode | null = null;
+
+  // Opt-in recording: our microphone and everything we hear from the fleet
+  private recorder: SessionRecorder | null = null;
+  private analytics: ConversationAnalytics | null = null;
+  private remoteMix: GainNode | null = null;
+
+  private config: PeerServiceConfig;
+  private audioSettings: AudioDeviceSettings = DEFAULT_AUDIO_SETTINGS;
+
+  constructor(config: PeerServiceConfig = {}) {
+    this.config = config;
+  }
+
+  // Options passed to the PeerJS constructor; unset fields keep PeerJS defaults
+  private getPeerOptions() {
+    const { host, port, path, secure, key, iceServers, debug } = this.config;
+    const options: Record<string, unknown> = { debug: debug ?? 1 };
+    if (host !== undefined) options.host = host;
+    if (port !== undefined) options.port = port;
+    if (path !== undefined) options.path = path;
+    if (secure !== undefined) options.secure = secure;
+    if (key !== undefined) options.key = key;
+    if (iceServers && iceServers.length > 0) options.config = { iceServers };
+    return options;
+  }
+
+  async init(myId: string, callbacks: PeerServiceCallbacks) {
+    this.callbacks = callbacks;
 
-  async init(myId: string, callbacks: {
-    onIncomingCall: (callerId: string) => void;
-    onStream: (stream: MediaStream) => void;
-    onClose: () => void;
-  }) {
     // PeerJS might fail if ID is taken or server is down
     try {
       if (this.peer) {
         this.peer.destroy();
       }
 
-      this.peer = new Peer(myId, {
-        debug: 1
-      });
+      this.peer = new Peer(myId, this.getPeerOptions());
 
       this.peer.on('open', (id: string) => {
         console.log('My peer ID is: ' + id);
       });
 
       this.peer.on('call', (incomingCall: any) => {
-        console.log('Receiving call...');
-        // If we are already in a call, we might want to reject or replace.
-        // For simplicity here, we overwrite, but in prod we should check state.
-        this.call = incomingCall; 
-        callbacks.onIncomingCall(incomingCall.peer);
+        console.log('Receiving call from', incomingCall.peer);
+        this.handleIncomingCall(incomingCall);
+      });
+
+      // The caller opens the data channel alongside the media call
+      this.peer.on('connection', (conn: any) => {
+        console.log('Data channel requested by', conn.peer);
+        const signal = this.pendingSignals.get(conn.peer);
+        if (signal) {
+          // Declined caller: the channel only carries the reason
+          this.pendingSignals.delete(conn.peer);
+          conn.on('open', () => {
+            conn.send({ type: 'call-signal', signal } as CallSignalMessage);
+            conn.close({ flush: true });
+          });
+          return;
+        }
+        this.setupDataConnection(conn, false);
       });
 
       this.peer.on('error', (err: any) => {
         console.error('Peer error:', err);
+        this.handlePeerError(err);
       });
     } catch (e) {
       console.error("Failed to initialize PeerJS", e);
@@ -56,40 +206,278 @@ export class PeerService {
     if (this.myStream) return this.myStream;
 
     try {
-      this.myStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+      this.myStream = await openMicrophone(this.audioSettings);
+      this.watchLocalTrack();
+      // Effects and the monitor run in the audio graph; the calls then send its output
+      if (this.needsVoiceGraph()) this.ensureAudioContext();
       return this.myStream;
     } catch (e) {
       console.error("Microphone access denied or not available", e);
-      throw new Error("Acesso ao microfone negado ou indisponível.");
+      throw new Error(t('errors.micDenied'));
     }
   }
 
-  async makeCall(remoteId: string, callbacks: {
-    onStream: (stream: MediaStream) => void;
-    onClose: () => void;
-  }) {
-    if (!this.myStream) await this.startLocalStream();
-    
-    // Close existing call if any
-    if (this.call) {
-      this.call.close();
+  // Stores the settings and, if the microphone is already open and its
+  // settings changed, swaps it on every call without renegotiating.
+  // Returns the new microphone stream, if there is one.
+  async applyAudioSettings(settings: AudioDeviceSettings): Promise<MediaStream | null> {
+    const previous = this.audioSettings;
+    this.audioSettings = settings;
+    if (this.audioContext) applySinkId(this.audioContext, settings.outputDeviceId);
+    if (!this.myStream || !inputSettingsChanged(previous, settings)) return null;
+
+    const stream = await openMicrophone(settings);
+    this.replaceLocalStream(stream);
+    return stream;
+  }
+
+  private replaceLocalStream(stream: MediaStream) {
+    const previous = this.myStream;
+    this.myStream = stream;
+
+    if (this.audioContext && this.inputSource && this.inputAnalyser) {
+      this.inputSource.disconnect();
+      this.inputSource = this.audioContext.createMediaStreamSource(stream);
+      this.inputSource.connect(this.inputAnalyser);
+      if (this.voiceIn) this.inputSource.connect(this.voiceIn);
+      this.recorder?.attach('local', this.audioContext, this.inputSource)
+        .catch(err => console.warn("Could not record the new microphone:", err));
     }
+    // With an effect or shared audio the mix node's track is what the calls send, and it is unchanged
+    if (!this.usesOutgoingMix()) {
+      this.replaceOutgoingTrack(stream.getAudioTracks()[0] ?? null);
+    }
+    this.watchLocalTrack();
+
+    if (previous && previous !== stream) {
+      previous.getAudioTracks().forEach(track => { track.onended = null; });
+      previous.getTracks().forEach(track => track.stop());
+    }
+    this.callbacks?.onLocalStreamChange?.(stream);
+  }
+
+  // An unplugged microphone ends its track: reopen one (the default if needed)
+  private watchLocalTrack() {
+    const track = this.myStream?.getAudioTracks()[0];
+    if (!track) return;
+    track.onended = () => {
+      if (this.myStream?.getAudioTracks()[0] !== track) return;
+      console.warn("Microphone track ended, reopening");
+      openMicrophone(this.audioSettings)
+        .then(stream => this.replaceLocalStream(stream))
+        .catch((err) => {
+          console.error("Failed to reopen microphone:", err);
+          this.callbacks?.onError?.(t('errors.micDisconnected'));
+        });
+    };
+  }
+
+  getParticipantIds(): string[] {
+    return Array.from(this.participants.keys());
+  }
+
+  getRemoteStream(peerId: string): MediaStream | null {
+    return this.participants.get(peerId)?.stream ?? null;
+  }
+
+  // At least one call is connected (not just dialing)
+  private isInFleet(): boolean {
+    return Array.from(this.participants.values()).some(p => !!p.stream);
+  }
 
-    this.call = this.peer.call(remoteId, this.myStream);
-    this.setupCallEvents(this.call, callbacks);
+  private isFleetFull(): boolean {
+    return this.participants.size + 1 >= MAX_FLEET_SIZE;
   }
 
-  async answerCall(callbacks: {
-    onStream: (stream: MediaStream) => void;
-    onClose: () => void;
-  }) {
-    if (!this.call) return;
+  private getRingTimeoutMs(): number {
+    return this.config.ringTimeoutMs ?? DEFAULT_RING_TIMEOUT_MS;
+  }
+
+  private startRingTimer(peerId: string, onTimeout: () => void) {
+    this.clearRingTimer(peerId);
+    this.ringTimers.set(peerId, window.setTimeout(() => {
+      this.ringTimers.delete(peerId);
+      onTimeout();
+    }, this.getRingTimeoutMs()));
+  }
+
+  private clearRingTimer(peerId: string) {
+    const timer = this.ringTimers.get(peerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.ringTimers.delete(peerId);
+    }
+  }
+
+  private handleIncomingCall(call: any) {
+    const callerId: string = call.peer;
+
+    if (this.participants.has(callerId)) {
+      console.warn(`Declining duplicate call from ${callerId}`);
+      call.close();
+      return;
+    }
+
+    // Pilots a fleet member announced join the channel without ringing
+    if (!this.isFleetFull() && this.isInFleet() && this.myStream && this.expectedPeers.delete(callerId)) {
+      this.acceptCall(call);
+      return;
+    }
+
+    // Full fleet, already ringing with someone else, or still dialing
+    if (this.isFleetFull() || this.pendingCalls.size > 0 || (this.participants.size > 0 && !this.isInFleet())) {
+      console.warn(`Declining call from ${callerId}: busy`);
+      this.declineCaller(callerId, 'busy');
+      call.close();
+      return;
+    }
+
+    this.pendingCalls.set(callerId, call);
+    // The caller gave up before we answered
+    call.on('close', () => {
+      if (this.pendingCalls.get(callerId) !== call) return;
+      this.dropPendingCall(callerId, 'cancelled');
+    });
+    this.startRingTimer(callerId, () => this.dropPendingCall(callerId, 'no-answer'));
+    this.callbacks?.onIncomingCall(callerId);
+  }
+
+  private dropPendingCall(callerId: string, reason: CallEndReason) {
+    const call = this.pendingCalls.get(callerId);
+    if (!call) return;
+    this.pendingCalls.delete(callerId);
+    this.clearRingTimer(callerId);
+    call.close();
+    this.callbacks?.onCallEnded?.(callerId, reason);
+  }
+
+  // Declines a ringing call and tells the caller why
+  rejectCall(callerId: string) {
+    if (!this.pendingCalls.has(callerId)) return;
+    this.declineCaller(callerId, 'rejected');
+    this.dropPendingCall(callerId, 'declined');
+  }
+
+  // Hangs up on one pilot (or stops calling them)
+  hangUp(peerId: string) {
+    const participant = this.participants.get(peerId);
+    if (!participant) return;
+    this.sendSignal(peerId, 'hangup');
+    this.endReasons.set(peerId, 'local-hangup');
+    this.removeParticipant(peerId, participant.call);
+    participant.call.close();
+  }
+
+  private sendSignal(peerId: string, signal: CallSignalMessage['signal']) {
+    const conn = this.dataConnections.get(peerId);
+    if (conn?.open) {
+      conn.send({ type: 'call-signal', signal } as CallSignalMessage);
+    }
+  }
+
+  // Tells a caller we did not let in why, over its data channel, then closes
+  // that channel. The channel may open (or even arrive) after the media call.
+  private declineCaller(callerId: string, signal: CallSignalMessage['signal']) {
+    const conn = this.dataConnections.get(callerId);
+    if (conn) {
+      this.dataConnections.delete(callerId);
+      const send = () => {
+        conn.send({ type: 'call-signal', signal } as CallSignalMessage);
+        conn.close({ flush: true });
+      };
+      if (conn.open) send();
+      else conn.on('open', send);
+      return;
+    }
+
+    this.pendingSignals.set(callerId, signal);
+    // Forget it if the caller never opens a channel
+    window.setTimeout(() => {
+      if (this.pendingSignals.get(callerId) === signal) this.pendingSignals.delete(callerId);
+    }, this.getRingTimeoutMs());
+  }
+
+  private handleCallSignal(peerId: string, signal: CallSignalMessage['signal']) {
+    // The caller hung up while we were still ringing
+    if (this.pendingCalls.has(peerId)) {
+      this.dropPendingCall(peerId, 'cancelled');
+      return;
+    }
+    const participant = this.participants.get(peerId);
+    if (!participant) return;
+    this.endReasons.set(peerId, SIGNAL_END_REASONS[signal]);
+    this.removeParticipant(peerId, participant.call);
+    participant.call.close();
+  }
+
+  private handleAnnounce(fromId: string, peerId: string) {
+    // Only pilots already in the channel with us may vouch for a newcomer
+    if (!this.participants.get(fromId)?.stream) return;
+    if (peerId === this.peer?.id || this.participants.has(peerId)) return;
+
+    if (this.pendingCalls.has(peerId)) {
+      // Its call arrived before the announcement and is ringing: let it in now
+      this.answerCall(peerId).catch(err => console.warn(`Could not let ${peerId} in:`, err));
+      return;
+    }
+    this.expectedPeers.add(peerId);
+    // Forget it if the newcomer never calls
+    window.setTimeout(() => this.expectedPeers.delete(peerId), this.getRingTimeoutMs());
+  }
+
+  private handlePeerError(err: any) {
+    if (err?.type === 'peer-unavailable') {
+      // PeerJS only names the peer in the message: "Could not connect to peer XYZ"
+      const match = /peer\s+(\S+)$/.exec(err.message ?? '');
+      const ringing = Array.from(this.participants.values()).filter(p => !p.stream);
+      const target = ringing.find(p => p.id === match?.[1]) ?? (ringing.length === 1 ? ringing[0] : undefined);
+      if (target) {
+        this.endReasons.set(target.id, 'unavailable');
+        this.removeParticipant(target.id, target.call);
+        target.call.close();
+      }
+      return;
+    }
+
+    const key = PEER_ERROR_MESSAGES[err?.type];
+    const message = key ? t(key) : err?.message ?? t('errors.p2pUnknown');
+    this.callbacks?.onError?.(message);
+  }
+
+  async makeCall(remoteId: string) {
+    if (this.participants.has(remoteId)) return;
+    if (this.isFleetFull()) {
+      throw new Error(t('errors.fleetFull', { max: MAX_FLEET_SIZE }));
+    }
+    if (!this.myStream) await this.startLocalStream();
+
+    const call = this.peer.call(remoteId, this.getOutgoingStream());
+    this.addParticipant(remoteId, call);
+    this.setupDataConnection(this.peer.connect(remoteId, { reliable: true }), true);
+    this.startRingTimer(remoteId, () => {
+      const participant = this.participants.get(remoteId);
+      if (!participant || participant.call !== call || participant.stream) return;
+      this.endReasons.set(remoteId, 'no-answer');
+      this.removeParticipant(remoteId, call);
+      call.close();
+    });
+  }
+
+  async answerCall(callerId: string) {
+    const call = this.pendingCalls.get(callerId);
+    if (!call) return;
+    this.pendingCalls.delete(callerId);
+    this.clearRingTimer(callerId);
     if (!this.myStream) await this.startLocalStream();
 
+    this.acceptCall(call);
+  }
+
+  private acceptCall(call: any) {
     try {
       // Check if connection is already active to prevent "InvalidStateError: stable"
       // PeerJS doesn't expose readyState easily on MediaConnection, so we try-catch
-      this.call.answer(this.myStream);
+      call.answer(this.getOutgoingStream());
     } catch (e: any) {
       // If the error is about state being 'stable', it means we are already connected/connecting
       // which is fine, we just proceed to setup events.
@@ -100,111 +488,521 @@ export class PeerService {
         throw e;
       }
     }
-    
-    this.setupCallEvents(this.call, callbacks);
+
+    this.addParticipant(call.peer, call);
+    // Its data channel may have opened while it was ringing
+    if (this.dataConnections.get(call.peer)?.open) this.callbacks?.onDataChannelChange?.(call.peer, true);
+    this.introduceNewcomer(call.peer);
   }
 
-  private setupCallEvents(call: any, callbacks: {
-    onStream: (stream: MediaStream) => void;
-    onClose: () => void;
-  }) {
-    // Remove previous listeners to avoid duplicates if setupCallEvents is called twice
-    call.off('stream');
-    call.off('close');
-    call.off('error');
+  // Tells the rest of the fleet that the pilot we just let in will call them,
+  // and gives the newcomer the list of pilots to call
+  private introduceNewcomer(peerId: string) {
+    if (this.dataConnections.get(peerId)?.open) this.sendRoster(peerId);
+    this.participants.forEach(participant => {
+      if (participant.id === peerId || !participant.stream) return;
+      const conn = this.dataConnections.get(participant.id);
+      if (conn?.open) conn.send({ type: 'announce', peerId });
+    });
+  }
+
+  private sendRoster(peerId: string) {
+    const others = this.getParticipantIds().filter(id => id !== peerId);
+    if (others.length > 0) {
+      this.dataConnections.get(peerId)?.send({ type: 'roster', peerIds: others });
+    }
+  }
+
+  private addParticipant(peerId: string, call: any) {
+    this.participants.set(peerId, { id: peerId, call, stream: null, source: null, analyser: null, lastStats: null });
+    this.expectedPeers.delete(peerId);
 
     call.on('stream', (remoteStream: MediaStream) => {
-      this.remoteStream = remoteStream;
-      callbacks.onStream(remoteStream);
-      this.setupAudioAnalysis();
+      const participant = this.participants.get(peerId);
+      // PeerJS may emit 'stream' once per track
+      if (!participant || participant.call !== call || participant.stream) return;
+      participant.stream = remoteStream;
+      this.clearRingTimer(peerId);
+      this.attachAnalyser(participant);
+      this.startStatsMonitoring();
+      this.recorder?.addParticipant(peerId);
+      this.callbacks?.onParticipantJoined(peerId, remoteStream);
     });
 
     call.on('close', () => {
-      this.cleanupCall();
-      callbacks.onClose();
+      this.removeParticipant(peerId, call);
     });
 
     call.on('error', (err: any) => {
-      console.error("Call error:", err);
+      console.error(`Call error with ${peerId}:`, err);
+      this.removeParticipant(peerId, call);
+    });
+  }
+
+  private removeParticipant(peerId: string, call: any) {
+    const participant = this.participants.get(peerId);
+    if (!participant || participant.call !== call) return;
+
+    this.participants.delete(peerId);
+    this.clearRingTimer(peerId);
+    participant.source?.disconnect();
+    participant.analyser?.disconnect();
+
+    // Unanswered calls that just closed were refused or could not be set up
+    const reason = this.endReasons.get(peerId) ?? (participant.stream ? 'connection-lost' : 'failed');
+    this.endReasons.delete(peerId);
+
+    const conn = this.dataConnections.get(peerId);
+    if (conn) {
+      this.dataConnections.delete(peerId);
+      // Let a pending call signal go out first
+      conn.close({ flush: true });
+      this.callbacks?.onDataChannelChange?.(peerId, false);
+    }
+
+    this.callbacks?.onCallEnded?.(peerId, reason);
+
+    if (participant.stream) {
+      this.callbacks?.onParticipantLeft(peerId);
+    }
+
+    if (this.participants.size === 0) {
       this.cleanupCall();
-      callbacks.onClose();
+      this.callbacks?.onClose();
+    }
+  }
+
+  private setupDataConnection(conn: any, isOutgoing: boolean) {
+    const peerId: string = conn.peer;
+    const previous = this.dataConnections.get(peerId);
+    if (previous && previous !== conn) {
+      previous.close();
+    }
+    this.dataConnections.set(peerId, conn);
+    const isCurrent = () => this.dataConnections.get(peerId) === conn;
+
+    conn.on('open', () => {
+      // A caller still ringing is reported, and gets the roster, when answered
+      if (!isCurrent() || !this.participants.has(peerId)) return;
+      this.callbacks?.onDataChannelChange?.(peerId, true);
+      if (!isOutgoing) this.sendRoster(peerId);
+    });
+
+    conn.on('data', (data: unknown) => {
+      if (!isCurrent()) return;
+      if (!isPeerMessage(data)) {
+        console.warn("Ignoring unknown data channel message", data);
+        return;
+      }
+      if (data.type === 'call-signal') {
+        this.handleCallSignal(peerId, data.signal);
+        return;
+      }
+      if (!this.participants.has(peerId)) {
+        console.warn(`Ignoring ${data.type} message from ${peerId}, who is not in the fleet`);
+        return;
+      }
+      if (data.type === 'roster') {
+        if (isOutgoing) this.joinRoster(data.peerIds);
+        return;
+      }
+      if (data.type === 'announce') {
+        this.handleAnnounce(peerId, data.peerId);
+        return;
+      }
+      this.callbacks?.onMessage?.(data, peerId);
+    });
+
+    conn.on('close', () => {
+      if (!isCurrent()) return;
+      this.dataConnections.delete(peerId);
+      if (this.participants.has(peerId)) this.callbacks?.onDataChannelChange?.(peerId, false);
+    });
+
+    conn.on('error', (err: any) => {
+      console.error(`Data channel error with ${peerId}:`, err);
     });
   }
 
-  private setupAudioAnalysis() {
-    if (!this.myStream || !this.remoteStream) return;
+  // Completes the mesh by calling every fleet member we are not connected to yet
+  private joinRoster(peerIds: string[]) {
+    const myId = this.peer?.id;
+    peerIds
+      .filter(id => id !== myId && !this.participants.has(id))
+      .forEach(id => {
+        this.makeCall(id).catch(err => console.warn(`Could not join ${id}:`, err));
+      });
+  }
 
-    try {
-      if (this.audioContext) {
-        this.audioContext.close();
+  // Broadcasts to the open data channels of the fleet (not to callers still
+  // ringing). Returns false if none is open yet.
+  sendMessage(message: PeerMessage): boolean {
+    let sent = false;
+    this.dataConnections.forEach((conn, peerId) => {
+      if (conn.open && this.participants.has(peerId)) {
+        conn.send(message);
+        sent = true;
       }
+    });
+    return sent;
+  }
+
+  private needsVoiceGraph(): boolean {
+    return this.voiceEffect !== 'none' || this.voiceMonitor;
+  }
+
+  // The raw microphone track is sent unless a voice effect or shared audio goes
+  // through the outgoing mix
+  private usesOutgoingMix(): boolean {
+    return this.voiceEffect !== 'none' || !!this.sharedSource;
+  }
+
+  private getOutgoingStream(): MediaStream | null {
+    if (!this.usesOutgoingMix()) return this.myStream;
+    return this.ensureOutgoingMix()?.stream ?? this.myStream;
+  }
+
+  private ensureOutgoingMix(): MediaStreamAudioDestinationNode | null {
+    if (this.outgoingMix) return this.outgoingMix;
+    const ctx = this.ensureAudioContext();
+    if (!ctx || !this.voiceOut) return null;
+    this.outgoingMix = ctx.createMediaStreamDestination();
+    this.voiceOut.connect(this.outgoingMix);
+    return this.outgoingMix;
+  }
+
+  private updateOutgoingTrack() {
+    this.replaceOutgoingTrack(this.getOutgoingStream()?.getAudioTracks()[0] ?? null);
+  }
+
+  // Mixes another stream into our outgoing audio, so every pilot in the fleet
+  // hears it. Pass null to go back to the microphone alone.
+  setSharedAudio(stream: MediaStream | null) {
+    if (this.sharedSource) {
+      this.sharedSource.disconnect();
+      this.sharedSource = null;
+    }
+
+    if (!stream) {
+      this.updateOutgoingTrack();
+      return;
+    }
+
+    const mix = this.ensureOutgoingMix();
+    if (!mix || !this.audioContext) {
+      throw new Error(t('errors.sharedAudioMic'));
+    }
+
+    this.sharedSource = this.audioContext.createMediaStreamSource(stream);
+    this.sharedSource.connect(mix);
+    if (this.remoteMix) this.sharedSource.connect(this.remoteMix);
+    this.updateOutgoingTrack();
+  }
+
+  // Disguises our voice for the fleet; switching presets mid-call swaps the
+  // chain without renegotiating
+  setVoiceEffect(effect: VoiceEffect) {
+    this.voiceEffect = effect;
+    if (!this.myStream) return;
+    if (this.audioContext) {
+      this.buildVoiceChain();
+    } else if (effect !== 'none') {
+      this.ensureAudioContext();
+    }
+    this.updateOutgoingTrack();
+  }
+
+  // Plays our own (processed) voice back on the speaker
+  setVoiceMonitor(enabled: boolean) {
+    this.voiceMonitor = enabled;
+    if (enabled && this.myStream) this.ensureAudioContext();
+    if (this.monitorGain) this.monitorGain.gain.value = enabled ? 1 : 0;
+  }
+
+  private buildVoiceChain() {
+    if (!this.audioContext || !this.voiceIn || !this.voiceOut) return;
+    this.voiceChain?.dispose();
+    this.voiceIn.disconnect();
+
+    this.voiceChain = this.voiceEffect !== 'none' ? createVoiceEffectChain(this.audioContext, this.voiceEffect) : null;
+    if (this.voiceChain) {
+      this.voiceIn.connect(this.voiceChain.input);
+      this.voiceChain.output.connect(this.voiceOut);
+    } else {
+      this.voiceIn.connect(this.voiceOut);
+    }
+  }
+
+  // Swaps the audio we send on calls that are already up, without renegotiating
+  private replaceOutgoingTrack(track: MediaStreamTrack | null) {
+    if (!track) return;
+    this.participants.forEach(({ id, call }) => {
+      const pc: RTCPeerConnection | undefined = call.peerConnection;
+      pc?.getSenders()
+        .filter(sender => sender.track?.kind === 'audio')
+        .forEach(sender => {
+          sender.replaceTrack(track).catch(err => console.warn(`Could not replace audio track for ${id}:`, err));
+        });
+    });
+  }
+
+  private ensureAudioContext(): AudioContext | null {
+    if (this.audioContext) return this.audioContext;
+    if (!this.myStream) return null;
+
+    try {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       
       // Input setup
-      const sourceInput = this.audioContext.createMediaStreamSource(this.myStream);
+      this.inputSource = this.audioContext.createMediaStreamSource(this.myStream);
       this.inputAnalyser = this.audioContext.createAnalyser();
-      this.inputAnalyser.fftSize = 32;
-      sourceInput.connect(this.inputAnalyser);
-
-      // Remote setup
-      const sourceRemote = this.audioContext.createMediaStreamSource(this.remoteStream);
-      this.remoteAnalyser = this.audioContext.createAnalyser();
-      this.remoteAnalyser.fftSize = 32;
-      sourceRemote.connect(this.remoteAnalyser);
+      this.inputAnalyser.fftSize = ANALYSER_FFT_SIZE;
+      this.inputSource.connect(this.inputAnalyser);
+
+      // Voice path for the calls, with the effect chain and the monitor
+      this.voiceIn = this.audioContext.createGain();
+      this.voiceOut = this.audioContext.createGain();
+      this.inputSource.connect(this.voiceIn);
+      this.monitorGain = this.audioContext.createGain();
+      this.monitorGain.gain.value = this.voiceMonitor ? 1 : 0;
+      this.voiceOut.connect(this.monitorGain);
+      this.monitorGain.connect(this.audioContext.destination);
+      this.buildVoiceChain();
+      applySinkId(this.audioContext, this.audioSettings.outputDeviceId);
+
+      // Everything heard from the fleet, for the recorder
+      this.remoteMix = this.audioContext.createGain();
+      this.attachRecorder();
+    } catch (e) {
+      console.error("Audio Context Error", e);
+    }
+    return this.audioContext;
+  }
+
+  // Fed from the volume monitoring samples: our own peer id and each participant's
+  setAnalytics(analytics: ConversationAnalytics | null) {
+    this.analytics = analytics;
+  }
+
+  // Starts recording the call. The audio context is rebuilt for every call, so
+  // the recorder is re-attached whenever a new one is created.
+  setRecorder(recorder: SessionRecorder | null) {
+    this.recorder = recorder;
+    this.attachRecorder();
+  }
+
+  private attachRecorder() {
+    if (!this.recorder || !this.audioContext || !this.inputSource || !this.remoteMix) return;
+    const recorder = this.recorder;
+    this.participants.forEach((participant, peerId) => {
+      if (participant.stream) recorder.addParticipant(peerId);
+    });
+    Promise.all([
+      recorder.attach('local', this.audioContext, this.inputSource),
+      recorder.attach('remote', this.audioContext, this.remoteMix),
+    ]).catch(err => console.warn("Could not start recording:", err));
+  }
+
+  private attachAnalyser(participant: Participant) {
+    const ctx = this.ensureAudioContext();
+    if (!ctx || !participant.stream) return;
+
+    try {
+      participant.source = ctx.createMediaStreamSource(participant.stream);
+      participant.analyser = ctx.createAnalyser();
+      participant.analyser.fftSize = ANALYSER_FFT_SIZE;
+      participant.source.connect(participant.analyser);
+      if (this.remoteMix) participant.source.connect(this.remoteMix);
     } catch (e) {
       console.error("Audio Context Error", e);
     }
   }
 
-  startVolumeMonitoring(callback: (localVol: number, remoteVol: number) => void) {
+  // The visualizers read these every frame; null until the call's audio is set up
+  getInputAnalyser(): AnalyserNode | null {
+    return this.inputAnalyser;
+  }
+
+  getParticipantAnalyser(peerId: string): AnalyserNode | null {
+    return this.participants.get(peerId)?.analyser ?? null;
+  }
+
+  startVolumeMonitoring(callback: (localVol: number, remoteVols: Record<string, number>) => void) {
     if (this.volumeInterval) clearInterval(this.volumeInterval);
     
     this.volumeInterval = window.setInterval(() => {
       let localVol = 0;
-      let remoteVol = 0;
+      const remoteVols: Record<string, number> = {};
 
       if (this.inputAnalyser) {
-        const data = new Uint8Array(this.inputAnalyser.frequencyBinCount);
-        this.inputAnalyser.getByteFrequencyData(data);
-        localVol = data.reduce((a, b) => a + b) / data.length;
+        localVol = measureByteLevel(this.inputAnalyser);
       }
 
-      if (this.remoteAnalyser) {
-        const data = new Uint8Array(this.remoteAnalyser.frequencyBinCount);
-        this.remoteAnalyser.getByteFrequencyData(data);
-        remoteVol = data.reduce((a, b) => a + b) / data.length;
-      }
+      this.participants.forEach((participant, peerId) => {
+        if (!participant.analyser) return;
+        remoteVols[peerId] = measureByteLevel(participant.analyser);
+      });
 
-      callback(localVol, remoteVol);
+      if (this.analytics && this.peer?.id) {
+        this.analytics.sample({ [this.peer.id]: localVol, ...remoteVols });
+      }
+      callback(localVol, remoteVols);
     }, 100);
   }
 
-  endCall() {
-    if (this.call) {
-      this.call.close();
+  private startStatsMonitoring() {
+    if (this.statsInterval) return;
+    this.statsInterval = window.setInterval(() => {
+      this.participants.forEach(participant => {
+        if (participant.stream) this.sampleConnectionQuality(participant);
+      });
+    }, STATS_INTERVAL_MS);
+  }
+
+  private async sampleConnectionQuality(participant: Participant) {
+    const pc: RTCPeerConnection | undefined = participant.call.peerConnection;
+    if (!pc) return;
+    try {
+      const snapshot = readStatsSnapshot(await pc.getStats());
+      // The call may have ended while the stats were being read
+      if (this.participants.get(participant.id) !== participant) return;
+      const quality = computeConnectionQuality(snapshot, participant.lastStats);
+      participant.lastStats = snapshot;
+      this.callbacks?.onConnectionQuality?.(participant.id, quality);
+    } catch (err) {
+      console.warn(`Could not read connection stats for ${participant.id}:`, err);
+    }
+  }
+
+  // Gathers ICE candidates with the configured ICE servers (no remote peer needed)
+  // to show which paths are available: host (LAN), srflx (STUN) and relay (TURN).
+  async runIceDiagnostics(): Promise<IceDiagnostics> {
+    const startedAt = performance.now();
+    const pc = new RTCPeerConnection(this.config.iceServers?.length ? { iceServers: this.config.iceServers } : undefined);
+    const result: IceDiagnostics = {
+      candidates: [],
+      counts: { host: 0, srflx: 0, prflx: 0, relay: 0 },
+      complete: false,
+      durationMs: 0,
+    };
+
+    try {
+      const gathered = new Promise<boolean>((resolve) => {
+        const timeout = window.setTimeout(() => resolve(false), ICE_GATHERING_TIMEOUT_MS);
+        pc.onicecandidate = (event) => {
+          if (!event.candidate) {
+            clearTimeout(timeout);
+            resolve(true);
+            return;
+          }
+          const type = event.candidate.type as IceCandidateType | null;
+          if (!type) return;
+          result.counts[type]++;
+          result.candidates.push({
+            type,
+            protocol: event.candidate.protocol ?? 'udp',
+            address: event.candidate.address ?? '',
+          });
+        };
+      });
+
+      // A data channel is enough to trigger gathering
+      pc.createDataChannel('ice-diagnostics');
+      await pc.setLocalDescription(await pc.createOffer());
+      result.complete = await gathered;
+    } finally {
+      pc.onicecandidate = null;
+      pc.close();
     }
+
+    result.durationMs = performance.now() - startedAt;
+    return result;
+  }
+
+  // Leaves the fleet channel, telling every pilot (and anyone still ringing us)
+  // it was a deliberate hang-up
+  endCall() {
+    const ended = Array.from(this.participants.keys());
+    this.sendMessage({ type: 'call-signal', signal: 'hangup' });
+    Array.from(this.pendingCalls.keys()).forEach(callerId => {
+      this.declineCaller(callerId, 'hangup');
+      this.dropPendingCall(callerId, 'local-hangup');
+    });
+
+    const calls = Array.from(this.participants.values()).map(p => p.call);
     this.cleanupCall();
+    calls.forEach(call => call.close());
+    ended.forEach(peerId => this.callbacks?.onCallEnded?.(peerId, 'local-hangup'));
   }
 
   private cleanupCall() {
-    this.call = null;
-    this.remoteStream = null;
+    const fleet = new Set(this.participants.keys());
+    this.participants.forEach(p => {
+      p.source?.disconnect();
+      p.analyser?.disconnect();
+    });
+    this.participants.clear();
+    this.endReasons.clear();
+    this.expectedPeers.clear();
+
+    // A caller still ringing keeps ringing, with its timer and its channel for call signals
+    this.ringTimers.forEach((timer, peerId) => {
+      if (this.pendingCalls.has(peerId)) return;
+      clearTimeout(timer);
+      this.ringTimers.delete(peerId);
+    });
+    this.dataConnections.forEach((conn, peerId) => {
+      if (this.pendingCalls.has(peerId)) return;
+      conn.close({ flush: true });
+      this.dataConnections.delete(peerId);
+      if (fleet.has(peerId)) this.callbacks?.onDataChannelChange?.(peerId, false);
+    });
+
     if (this.volumeInterval) {
       clearInterval(this.volumeInterval);
       this.volumeInterval = null;
     }
+    if (this.statsInterval) {
+      clearInterval(this.statsInterval);
+      this.statsInterval = null;
+    }
+    if (this.sharedSource) {
+      this.sharedSource.disconnect();
+      this.sharedSource = null;
+    }
+    this.outgoingMix = null;
+    if (this.voiceChain) {
+      this.voiceChain.dispose();
+      this.voiceChain = null;
+    }
+    this.voiceIn = null;
+    this.voiceOut = null;
+    this.monitorGain = null;
+    if (this.remoteMix) {
+      this.remoteMix.disconnect();
+      this.remoteMix = null;
+    }
+    if (this.inputSource) {
+      this.inputSource.disconnect();
+      this.inputSource = null;
+    }
+    this.inputAnalyser = null;
     if (this.audioContext) {
       this.audioContext.close();
       this.audioContext = null;
     }
+    // The voice effect and its monitor stay on between calls
+    if (this.myStream && this.needsVoiceGraph()) this.ensureAudioContext();
   }
 
   destroy() {
-    this.endCall();
+    // Released first, so that ending the calls does not rebuild the voice graph
     if (this.myStream) {
+      this.myStream.getAudioTracks().forEach(track => { track.onended = null; });
       this.myStream.getTracks().forEach(track => track.stop());
       this.myStream = null;
     }
+    this.endCall();
     if (this.peer) {
       this.peer.destroy();
       this.peer = null;
@@ -0,0 +1,106 @@
+import { pcmBytesToInt16 } from '../utils/audioUtils';
+import {
+  createPlaybackNode,
+  DEFAULT_JITTER_TARGET_MS,
+  GEMINI_OUTPUT_SAMPLE_RATE,
+  loadPlaybackWorklet,
+  PlaybackWorkletMessage,
+  PlaybackWorkletReply,
+} from '../utils/playbackWorklet';
+
+export interface PlaybackEngineOptions {
+  sourceSampleRate?: number;
+  jitterTargetMs?: number;
+}
+
+// What happened to the current turn when playback was flushed (barge-in)
+export interface PlaybackFlushReport {
+  playedMs: number;
+  discardedMs: number;
+}
+
+export class PlaybackEngine {
+  private node: AudioWorkletNode;
+  private sourceSampleRate: number;
+  // Samples that were or will be played: what was enqueued minus what flushes
+  // discarded, so it lines up with the worklet's consumed count
+  private enqueuedSamples = 0;
+  private turnStartSample = 0;
+  private nextRequestId = 0;
+  private pendingFlushes = new Map<number, (reply: PlaybackWorkletReply) => void>();
+
+  private constructor(node: AudioWorkletNode, sourceSampleRate: number) {
+    this.node = node;
+    this.sourceSampleRate = sourceSampleRate;
+    this.node.port.onmessage = (e: MessageEvent<PlaybackWorkletReply>) => {
+      const resolve = this.pendingFlushes.get(e.data.requestId);
+      if (resolve) {
+        this.pendingFlushes.delete(e.data.requestId);
+        resolve(e.data);
+      }
+    };
+  }
+
+  static async create(ctx: BaseAudioContext, destination: AudioNode, options: PlaybackEngineOptions = {}): Promise<PlaybackEngine> {
+    await loadPlaybackWorklet(ctx);
+    const sourceSampleRate = options.sourceSampleRate ?? GEMINI_OUTPUT_SAMPLE_RATE;
+    const node = createPlaybackNode(ctx, {
+      sourceSampleRate,
+      jitterTargetMs: options.jitterTargetMs ?? DEFAULT_JITTER_TARGET_MS,
+    });
+    node.connect(destination);
+    return new PlaybackEngine(node, sourceSampleRate);
+  }
+
+  // Queues raw little-endian 16-bit PCM bytes for playback
+  enqueue(bytes: Uint8Array) {
+    // Copy so the buffer can be transferred to the audio thread
+    const samples = pcmBytesToInt16(bytes).slice();
+    if (samples.length === 0) return;
+    this.enqueuedSamples += samples.length;
+    this.post({ type: 'push', samples: samples.buffer }, [samples.buffer]);
+  }
+
+  // Marks the next enqueued sample as the start of a new model turn
+  markTurnStart() {
+    this.turnStartSample = this.enqueuedSamples;
+  }
+
+  setJitterTarget(ms: number) {
+    this.post({ type: 'setJitterTarget', ms });
+  }
+
+  // Drops all audio not yet rendered and reports how much of the current turn was heard
+  flush(): Promise<PlaybackFlushReport> {
+    const requestId = this.nextRequestId++;
+    const enqueuedAtFlush = this.enqueuedSamples;
+    return new Promise((resolve) => {
+      this.pendingFlushes.set(requestId, (reply) => {
+        const played = Math.max(0, reply.consumedSamples - this.turnStartSample);
+        // Discarded samples will never be consumed; audio enqueued after the
+        // flush (and a turn started after it) moves back by the same amount
+        this.enqueuedSamples -= reply.discardedSamples;
+        if (this.turnStartSample >= enqueuedAtFlush) {
+          this.turnStartSample -= reply.discardedSamples;
+        }
+        resolve({
+          playedMs: (played / this.sourceSampleRate) * 1000,
+          discardedMs: (reply.discardedSamples / this.sourceSampleRate) * 1000,
+        });
+      });
+      this.post({ type: 'flush', requestId });
+    });
+  }
+
+  dispose() {
+    this.node.port.onmessage = null;
+    this.node.disconnect();
+    // Unblock anyone still waiting on a flush
+    this.pendingFlushes.forEach(resolve => resolve({ type: 'flushed', requestId: -1, consumedSamples: 0, discardedSamples: 0 }));
+    this.pendingFlushes.clear();
+  }
+
+  private post(message: PlaybackWorkletMessage, transfer: Transferable[] = []) {
+    this.node.port.postMessage(message, transfer);
+  }
+}
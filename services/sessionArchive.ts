@@ -0,0 +1,192 @@
+import { ArchivedChunk, ArchivedSession, ArchivedSessionSummary, CommanderPersona, MessageLog, NegotiationOutcome } from '../types';
+import { t } from '../i18n';
+
+const DB_NAME = 'comunicador-universal';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+// Buffered chunks are written this often, so a closed tab loses little
+const FLUSH_INTERVAL_MS = 2000;
+
+interface StoredChunk {
+  sessionId: string;
+  chunk: ArchivedChunk;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+const generateSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Past AI sessions kept in IndexedDB: one summary per session plus its
+// timestamped audio, level and interruption chunks
+export class SessionArchive {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!window.indexedDB) {
+        reject(new Error(t('errors.indexedDbUnsupported')));
+        return;
+      }
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        const chunks = db.createObjectStore(CHUNKS_STORE, { autoIncrement: true });
+        chunks.createIndex('sessionId', 'sessionId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    this.dbPromise.catch(() => { this.dbPromise = null; });
+    return this.dbPromise;
+  }
+
+  async listSessions(): Promise<ArchivedSessionSummary[]> {
+    const db = await this.open();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    const sessions = await requestToPromise<ArchivedSessionSummary[]>(tx.objectStore(SESSIONS_STORE).getAll());
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  async loadSession(id: string): Promise<ArchivedSession | null> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readonly');
+    const summary = await requestToPromise<ArchivedSessionSummary | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+    if (!summary) return null;
+    const stored = await requestToPromise<StoredChunk[]>(
+      tx.objectStore(CHUNKS_STORE).index('sessionId').getAll(IDBKeyRange.only(id))
+    );
+    return { ...summary, chunks: stored.map(s => s.chunk) };
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(id);
+    const keys = await requestToPromise(tx.objectStore(CHUNKS_STORE).index('sessionId').getAllKeys(IDBKeyRange.only(id)));
+    keys.forEach(key => tx.objectStore(CHUNKS_STORE).delete(key));
+    await transactionDone(tx);
+  }
+
+  createWriter(persona: CommanderPersona): ArchiveWriter {
+    return new ArchiveWriter(this, persona);
+  }
+
+  // Used by ArchiveWriter: upserts the summary and appends chunks in one transaction
+  async write(summary: ArchivedSessionSummary, chunks: ArchivedChunk[]): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(summary);
+    const store = tx.objectStore(CHUNKS_STORE);
+    chunks.forEach(chunk => store.add({ sessionId: summary.id, chunk } as StoredChunk));
+    await transactionDone(tx);
+  }
+}
+
+// Collects one live session and writes it to the archive in batches
+export class ArchiveWriter {
+  private archive: SessionArchive;
+  private summary: ArchivedSessionSummary;
+  private startTime = performance.now();
+  private pending: ArchivedChunk[] = [];
+  private pendingLevels: { t: number; input: number; output: number }[] = [];
+  private flushInterval: number | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private isFinished = false;
+
+  constructor(archive: SessionArchive, persona: CommanderPersona) {
+    this.archive = archive;
+    this.summary = {
+      id: generateSessionId(),
+      startedAt: Date.now(),
+      endedAt: null,
+      durationMs: 0,
+      personaId: persona.id,
+      personaName: persona.name,
+      outcome: null,
+      transcript: [],
+    };
+    this.flushInterval = window.setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+
+  get sessionId(): string {
+    return this.summary.id;
+  }
+
+  addAudio(source: 'mic' | 'ai', samples: Int16Array, sampleRate: number) {
+    if (this.isFinished) return;
+    // Copy: the samples may be a view into a buffer that is reused or transferred
+    const copy = samples.slice();
+    this.pending.push({ kind: 'audio', source, t: this.elapsedMs(), sampleRate, samples: copy.buffer });
+  }
+
+  addLevels(input: number, output: number) {
+    if (this.isFinished) return;
+    this.pendingLevels.push({ t: this.elapsedMs(), input, output });
+  }
+
+  markInterrupted() {
+    if (this.isFinished) return;
+    this.pending.push({ kind: 'interrupted', t: this.elapsedMs() });
+  }
+
+  addTranscript(entry: MessageLog) {
+    if (this.isFinished) return;
+    this.summary.transcript.push({ ...entry, atMs: this.elapsedMs() });
+  }
+
+  setOutcome(outcome: NegotiationOutcome) {
+    this.summary.outcome = outcome;
+  }
+
+  // Writes what is left and closes the session. Safe to call more than once.
+  finish(): Promise<void> {
+    if (!this.isFinished) {
+      this.isFinished = true;
+      if (this.flushInterval) {
+        clearInterval(this.flushInterval);
+        this.flushInterval = null;
+      }
+      this.summary.endedAt = Date.now();
+      this.flush();
+    }
+    return this.writeQueue;
+  }
+
+  private flush() {
+    if (this.pendingLevels.length > 0) {
+      this.pending.push({ kind: 'levels', samples: this.pendingLevels });
+      this.pendingLevels = [];
+    }
+    const chunks = this.pending;
+    this.pending = [];
+    this.summary.durationMs = Math.round(this.elapsedMs());
+    const summary = { ...this.summary, transcript: [...this.summary.transcript] };
+
+    // Writes are chained so chunks keep their order in the store
+    this.writeQueue = this.writeQueue
+      .then(() => this.archive.write(summary, chunks))
+      .catch(err => console.warn("Failed to archive session chunk:", err));
+  }
+
+  private elapsedMs(): number {
+    return performance.now() - this.startTime;
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, LiveConnectionState, P2PState, SessionEvent, SessionState } from '../types';
+import { INITIAL_SESSION_STATE, sessionReducer } from './sessionMachine';
+
+const { DISCONNECTED, CONNECTING, CONNECTED, RECONNECTING } = LiveConnectionState;
+
+type P2PSession = Extract<SessionState, { screen: GameState.PLAYING_P2P }>;
+
+const p2p = (call: P2PSession['call'], extra: Partial<P2PSession> = {}): P2PSession =>
+  ({ screen: GameState.PLAYING_P2P, call, commander: DISCONNECTED, pending: null, error: null, ...extra });
+
+const STATES = {
+  menu: INITIAL_SESSION_STATE,
+  archive: { screen: GameState.ARCHIVE, pending: null, error: null },
+  campaign: { screen: GameState.CAMPAIGN, pending: null, error: null },
+  gameOver: { screen: GameState.GAME_OVER, pending: null, error: null },
+  aiConnecting: { screen: GameState.PLAYING_AI, ai: CONNECTING, pending: 'ai-start', error: null },
+  aiConnected: { screen: GameState.PLAYING_AI, ai: CONNECTED, pending: null, error: null },
+  p2pStarting: p2p({ phase: P2PState.WAITING }, { pending: 'p2p-start' }),
+  p2pWaiting: p2p({ phase: P2PState.WAITING }),
+  p2pDialing: p2p({ phase: P2PState.DIALING, peerId: 'bravo' }, { pending: 'dial' }),
+  p2pRinging: p2p({ phase: P2PState.RINGING, peerId: 'bravo' }),
+  p2pInCall: p2p({ phase: P2PState.IN_CALL }),
+  p2pInCallRinging: p2p({ phase: P2PState.IN_CALL, incomingPeerId: 'charlie' }),
+  p2pWithCommander: p2p({ phase: P2PState.IN_CALL }, { commander: CONNECTED }),
+} satisfies Record<string, SessionState>;
+
+const EVENTS = {
+  aiStart: { kind: 'ai-start' },
+  aiState: { kind: 'ai-state', state: RECONNECTING },
+  aiError: { kind: 'ai-error', message: 'boom' },
+  aiStop: { kind: 'ai-stop' },
+  p2pStart: { kind: 'p2p-start' },
+  p2pStop: { kind: 'p2p-stop', next: GameState.GAME_OVER },
+  dial: { kind: 'dial', peerId: 'delta' },
+  incomingCall: { kind: 'incoming-call', peerId: 'charlie' },
+  answer: { kind: 'answer' },
+  participantJoined: { kind: 'participant-joined', peerId: 'charlie' },
+  callEnded: { kind: 'call-ended', peerId: 'bravo', message: 'gone', remaining: 1 },
+  lastCallEnded: { kind: 'call-ended', peerId: 'bravo', message: null, remaining: 0 },
+  callsClosed: { kind: 'calls-closed' },
+  summon: { kind: 'summon' },
+  commanderDismissed: { kind: 'commander-dismissed' },
+  actionDone: { kind: 'action-done' },
+  actionFailed: { kind: 'action-failed', message: 'failed' },
+  error: { kind: 'error', message: 'oops' },
+  openArchive: { kind: 'open-archive' },
+  openCampaign: { kind: 'open-campaign' },
+  backToMenu: { kind: 'back-to-menu' },
+} satisfies Record<string, SessionEvent>;
+
+type StateName = keyof typeof STATES;
+type EventName = keyof typeof EVENTS;
+
+const menu: SessionState = { screen: GameState.MENU, pending: null, error: null };
+const aiStarted: SessionState = { screen: GameState.PLAYING_AI, ai: CONNECTING, pending: 'ai-start', error: null };
+const p2pStarted = p2p({ phase: P2PState.WAITING }, { pending: 'p2p-start' });
+const gameOver: SessionState = { screen: GameState.GAME_OVER, pending: null, error: null };
+
+// Every valid (state, event) pair and the state it leads to; any pair missing
+// here must leave the state untouched
+const TRANSITIONS: Record<StateName, Partial<Record<EventName, SessionState>>> = {
+  menu: {
+    aiStart: aiStarted,
+    p2pStart: p2pStarted,
+    error: { ...menu, error: 'oops' },
+    openArchive: { screen: GameState.ARCHIVE, pending: null, error: null },
+    openCampaign: { screen: GameState.CAMPAIGN, pending: null, error: null },
+  },
+  archive: {
+    error: { ...STATES.archive, error: 'oops' },
+    backToMenu: menu,
+  },
+  campaign: {
+    aiStart: aiStarted,
+    error: { ...STATES.campaign, error: 'oops' },
+    backToMenu: menu,
+  },
+  gameOver: {
+    error: { ...gameOver, error: 'oops' },
+    openCampaign: { screen: GameState.CAMPAIGN, pending: null, error: null },
+    backToMenu: menu,
+  },
+  aiConnecting: {
+    aiState: { ...STATES.aiConnecting, ai: RECONNECTING },
+    aiError: { ...STATES.aiConnecting, ai: DISCONNECTED, error: 'boom' },
+    aiStop: gameOver,
+    actionDone: { ...STATES.aiConnecting, pending: null },
+    actionFailed: { ...STATES.aiConnecting, ai: DISCONNECTED, pending: null, error: 'failed' },
+    error: { ...STATES.aiConnecting, error: 'oops' },
+  },
+  aiConnected: {
+    aiState: { ...STATES.aiConnected, ai: RECONNECTING },
+    aiError: { ...STATES.aiConnected, ai: DISCONNECTED, error: 'boom' },
+    aiStop: gameOver,
+    error: { ...STATES.aiConnected, error: 'oops' },
+  },
+  p2pStarting: {
+    aiError: { ...STATES.p2pStarting, error: 'boom' },
+    p2pStop: gameOver,
+    incomingCall: { ...STATES.p2pStarting, call: { phase: P2PState.RINGING, peerId: 'charlie' } },
+    participantJoined: { ...STATES.p2pStarting, call: { phase: P2PState.IN_CALL } },
+    callEnded: { ...STATES.p2pStarting, error: 'gone' },
+    lastCallEnded: STATES.p2pStarting,
+    actionDone: { ...STATES.p2pStarting, pending: null },
+    actionFailed: { ...menu, error: 'failed' },
+    error: { ...STATES.p2pStarting, error: 'oops' },
+  },
+  p2pWaiting: {
+    aiError: { ...STATES.p2pWaiting, error: 'boom' },
+    p2pStop: gameOver,
+    dial: { ...STATES.p2pWaiting, call: { phase: P2PState.DIALING, peerId: 'delta' }, pending: 'dial' },
+    incomingCall: { ...STATES.p2pWaiting, call: { phase: P2PState.RINGING, peerId: 'charlie' } },
+    participantJoined: { ...STATES.p2pWaiting, call: { phase: P2PState.IN_CALL } },
+    callEnded: { ...STATES.p2pWaiting, error: 'gone' },
+    lastCallEnded: STATES.p2pWaiting,
+    error: { ...STATES.p2pWaiting, error: 'oops' },
+  },
+  p2pDialing: {
+    aiError: { ...STATES.p2pDialing, error: 'boom' },
+    p2pStop: gameOver,
+    participantJoined: { ...STATES.p2pDialing, call: { phase: P2PState.IN_CALL } },
+    callEnded: { ...STATES.p2pDialing, call: { phase: P2PState.WAITING }, error: 'gone' },
+    lastCallEnded: { ...STATES.p2pDialing, call: { phase: P2PState.WAITING } },
+    callsClosed: { ...STATES.p2pDialing, call: { phase: P2PState.WAITING } },
+    actionDone: { ...STATES.p2pDialing, pending: null },
+    actionFailed: { ...STATES.p2pDialing, call: { phase: P2PState.WAITING }, pending: null, error: 'failed' },
+    error: { ...STATES.p2pDialing, error: 'oops' },
+  },
+  p2pRinging: {
+    aiError: { ...STATES.p2pRinging, error: 'boom' },
+    p2pStop: gameOver,
+    answer: { ...STATES.p2pRinging, pending: 'answer' },
+    participantJoined: { ...STATES.p2pRinging, call: { phase: P2PState.IN_CALL } },
+    callEnded: { ...STATES.p2pRinging, call: { phase: P2PState.WAITING }, error: 'gone' },
+    lastCallEnded: { ...STATES.p2pRinging, call: { phase: P2PState.WAITING } },
+    error: { ...STATES.p2pRinging, error: 'oops' },
+  },
+  p2pInCall: {
+    aiError: { ...STATES.p2pInCall, error: 'boom' },
+    p2pStop: gameOver,
+    dial: { ...STATES.p2pInCall, pending: 'dial' },
+    incomingCall: { ...STATES.p2pInCall, call: { phase: P2PState.IN_CALL, incomingPeerId: 'charlie' } },
+    callEnded: { ...STATES.p2pInCall, error: 'gone' },
+    lastCallEnded: { ...STATES.p2pInCall, call: { phase: P2PState.WAITING } },
+    callsClosed: { ...STATES.p2pInCall, call: { phase: P2PState.WAITING } },
+    summon: { ...STATES.p2pInCall, commander: CONNECTING, pending: 'summon' },
+    error: { ...STATES.p2pInCall, error: 'oops' },
+  },
+  p2pInCallRinging: {
+    aiError: { ...STATES.p2pInCallRinging, error: 'boom' },
+    p2pStop: gameOver,
+    dial: { ...STATES.p2pInCallRinging, pending: 'dial' },
+    answer: { ...STATES.p2pInCallRinging, pending: 'answer' },
+    participantJoined: { ...STATES.p2pInCallRinging, call: { phase: P2PState.IN_CALL } },
+    callEnded: { ...STATES.p2pInCallRinging, error: 'gone' },
+    lastCallEnded: { ...STATES.p2pInCallRinging, call: { phase: P2PState.RINGING, peerId: 'charlie' } },
+    callsClosed: { ...STATES.p2pInCallRinging, call: { phase: P2PState.RINGING, peerId: 'charlie' } },
+    summon: { ...STATES.p2pInCallRinging, commander: CONNECTING, pending: 'summon' },
+    error: { ...STATES.p2pInCallRinging, error: 'oops' },
+  },
+  p2pWithCommander: {
+    aiState: { ...STATES.p2pWithCommander, commander: RECONNECTING },
+    aiError: { ...STATES.p2pWithCommander, error: 'boom' },
+    p2pStop: gameOver,
+    dial: { ...STATES.p2pWithCommander, pending: 'dial' },
+    incomingCall: { ...STATES.p2pWithCommander, call: { phase: P2PState.IN_CALL, incomingPeerId: 'charlie' } },
+    callEnded: { ...STATES.p2pWithCommander, error: 'gone' },
+    lastCallEnded: { ...STATES.p2pWithCommander, call: { phase: P2PState.WAITING } },
+    callsClosed: { ...STATES.p2pWithCommander, call: { phase: P2PState.WAITING } },
+    commanderDismissed: { ...STATES.p2pWithCommander, commander: DISCONNECTED },
+    error: { ...STATES.p2pWithCommander, error: 'oops' },
+  },
+};
+
+describe('sessionReducer', () => {
+  const stateNames = Object.keys(STATES) as StateName[];
+  const eventNames = Object.keys(EVENTS) as EventName[];
+
+  stateNames.forEach((stateName) => {
+    describe(stateName, () => {
+      eventNames.forEach((eventName) => {
+        const expected = TRANSITIONS[stateName][eventName];
+        const state = STATES[stateName];
+        const event = EVENTS[eventName];
+
+        if (expected) {
+          it(`${eventName} is applied`, () => {
+            expect(sessionReducer(state, event)).toEqual(expected);
+          });
+        } else {
+          it(`${eventName} is ignored`, () => {
+            expect(sessionReducer(state, event)).toBe(state);
+          });
+        }
+      });
+    });
+  });
+
+  it('clears the incoming call when that caller hangs up', () => {
+    const next = sessionReducer(STATES.p2pInCallRinging, { kind: 'call-ended', peerId: 'charlie', message: null, remaining: 1 });
+    expect(next).toEqual({ ...STATES.p2pInCallRinging, call: { phase: P2PState.IN_CALL } });
+  });
+
+  it('keeps the incoming call when someone else joins', () => {
+    const state = STATES.p2pInCallRinging;
+    expect(sessionReducer(state, { kind: 'participant-joined', peerId: 'delta' })).toBe(state);
+  });
+});
@@ -0,0 +1,177 @@
+import { GameState, LiveConnectionState, P2PCall, P2PState, SessionEvent, SessionState } from '../types';
+
+export const INITIAL_SESSION_STATE: SessionState = { screen: GameState.MENU, pending: null, error: null };
+
+const WAITING: P2PCall = { phase: P2PState.WAITING };
+
+// Lifecycle of the app's AI and P2P sessions. The UI and the services'
+// callbacks send events; events that are not valid in the current state are
+// ignored (the same state is returned), so late callbacks from a session that
+// was already torn down cannot move the app back into it.
+export function sessionReducer(state: SessionState, event: SessionEvent): SessionState {
+  switch (event.kind) {
+    case 'ai-start': {
+      // Solo commanders start from the menu, campaign sectors from the map
+      if ((state.screen !== GameState.MENU && state.screen !== GameState.CAMPAIGN) || state.pending) return state;
+      return { screen: GameState.PLAYING_AI, ai: LiveConnectionState.CONNECTING, pending: 'ai-start', error: null };
+    }
+
+    case 'ai-state': {
+      if (state.screen === GameState.PLAYING_AI) return { ...state, ai: event.state };
+      // A dismissed commander's session may still report while closing
+      if (state.screen === GameState.PLAYING_P2P && state.commander !== LiveConnectionState.DISCONNECTED) {
+        return { ...state, commander: event.state };
+      }
+      return state;
+    }
+
+    case 'ai-error': {
+      if (state.screen === GameState.PLAYING_AI) return { ...state, ai: LiveConnectionState.DISCONNECTED, error: event.message };
+      if (state.screen === GameState.PLAYING_P2P) return { ...state, error: event.message };
+      return state;
+    }
+
+    case 'ai-stop': {
+      if (state.screen !== GameState.PLAYING_AI) return state;
+      return { screen: GameState.GAME_OVER, pending: null, error: state.error };
+    }
+
+    case 'p2p-start': {
+      if (state.screen !== GameState.MENU || state.pending) return state;
+      return {
+        screen: GameState.PLAYING_P2P,
+        call: WAITING,
+        commander: LiveConnectionState.DISCONNECTED,
+        pending: 'p2p-start',
+        error: null,
+      };
+    }
+
+    case 'p2p-stop': {
+      if (state.screen !== GameState.PLAYING_P2P) return state;
+      return { screen: event.next, pending: null, error: null };
+    }
+
+    case 'dial': {
+      if (state.screen !== GameState.PLAYING_P2P || state.pending) return state;
+      // Inviting another pilot into the fleet channel keeps us in the call
+      if (state.call.phase === P2PState.IN_CALL) return { ...state, pending: 'dial', error: null };
+      if (state.call.phase !== P2PState.WAITING) return state;
+      return { ...state, call: { phase: P2PState.DIALING, peerId: event.peerId }, pending: 'dial', error: null };
+    }
+
+    case 'incoming-call': {
+      if (state.screen !== GameState.PLAYING_P2P) return state;
+      if (state.call.phase === P2PState.WAITING) return { ...state, call: { phase: P2PState.RINGING, peerId: event.peerId } };
+      // A pilot outside the fleet calls while we are in it
+      if (state.call.phase === P2PState.IN_CALL && !state.call.incomingPeerId) {
+        return { ...state, call: { phase: P2PState.IN_CALL, incomingPeerId: event.peerId } };
+      }
+      return state;
+    }
+
+    case 'answer': {
+      if (state.screen !== GameState.PLAYING_P2P || state.pending) return state;
+      const ringing = state.call.phase === P2PState.RINGING
+        || (state.call.phase === P2PState.IN_CALL && !!state.call.incomingPeerId);
+      return ringing ? { ...state, pending: 'answer', error: null } : state;
+    }
+
+    case 'participant-joined': {
+      if (state.screen !== GameState.PLAYING_P2P) return state;
+      if (state.call.phase !== P2PState.IN_CALL) return { ...state, call: { phase: P2PState.IN_CALL } };
+      // The pilot who was calling us is now in the fleet
+      if (state.call.incomingPeerId === event.peerId) return { ...state, call: { phase: P2PState.IN_CALL } };
+      return state;
+    }
+
+    case 'call-ended': {
+      if (state.screen !== GameState.PLAYING_P2P) return state;
+      const error = event.message ?? state.error;
+      const ringingThisPeer = (state.call.phase === P2PState.RINGING || state.call.phase === P2PState.DIALING)
+        && state.call.peerId === event.peerId;
+      if (state.call.phase === P2PState.IN_CALL && state.call.incomingPeerId) {
+        if (state.call.incomingPeerId === event.peerId) {
+          return { ...state, call: event.remaining === 0 ? WAITING : { phase: P2PState.IN_CALL }, error };
+        }
+        // The fleet emptied while someone outside it was calling: keep ringing
+        if (event.remaining === 0) return { ...state, call: { phase: P2PState.RINGING, peerId: state.call.incomingPeerId }, error };
+      }
+      // Nothing connected or ringing any more: back to dialing
+      if (event.remaining === 0 || ringingThisPeer) return { ...state, call: WAITING, error };
+      return { ...state, error };
+    }
+
+    case 'calls-closed': {
+      // A call ringing from outside the fleet is not one of the fleet's calls
+      if (state.screen !== GameState.PLAYING_P2P || state.call.phase === P2PState.WAITING || state.call.phase === P2PState.RINGING) {
+        return state;
+      }
+      if (state.call.phase === P2PState.IN_CALL && state.call.incomingPeerId) {
+        return { ...state, call: { phase: P2PState.RINGING, peerId: state.call.incomingPeerId } };
+      }
+      return { ...state, call: WAITING };
+    }
+
+    case 'summon': {
+      if (state.screen !== GameState.PLAYING_P2P || state.call.phase !== P2PState.IN_CALL) return state;
+      if (state.pending || state.commander !== LiveConnectionState.DISCONNECTED) return state;
+      return { ...state, commander: LiveConnectionState.CONNECTING, pending: 'summon', error: null };
+    }
+
+    case 'commander-dismissed': {
+      if (state.screen !== GameState.PLAYING_P2P || state.commander === LiveConnectionState.DISCONNECTED) return state;
+      return { ...state, commander: LiveConnectionState.DISCONNECTED };
+    }
+
+    case 'action-done': {
+      if (!state.pending) return state;
+      return { ...state, pending: null };
+    }
+
+    case 'action-failed': {
+      if (!state.pending) return state;
+      const failed = { ...state, pending: null, error: event.message };
+      if (failed.screen === GameState.PLAYING_AI) return { ...failed, ai: LiveConnectionState.DISCONNECTED };
+      if (failed.screen === GameState.PLAYING_P2P) {
+        if (state.pending === 'p2p-start') return { screen: GameState.MENU, pending: null, error: event.message };
+        if (state.pending === 'summon') return { ...failed, commander: LiveConnectionState.DISCONNECTED };
+        if (failed.call.phase === P2PState.DIALING) return { ...failed, call: WAITING };
+      }
+      return failed;
+    }
+
+    case 'error': {
+      return { ...state, error: event.message };
+    }
+
+    case 'open-archive': {
+      if (state.screen !== GameState.MENU || state.pending) return state;
+      return { screen: GameState.ARCHIVE, pending: null, error: null };
+    }
+
+    case 'open-campaign': {
+      if ((state.screen !== GameState.MENU && state.screen !== GameState.GAME_OVER) || state.pending) return state;
+      return { screen: GameState.CAMPAIGN, pending: null, error: null };
+    }
+
+    case 'back-to-menu': {
+      if (state.screen !== GameState.ARCHIVE && state.screen !== GameState.CAMPAIGN && state.screen !== GameState.GAME_OVER) {
+        return state;
+      }
+      return { screen: GameState.MENU, pending: null, error: null };
+    }
+  }
+}
+
+// Connection state of the AI session on screen: the solo commander or the one
+// hosted in the fleet channel
+export function getAiConnectionState(state: SessionState): LiveConnectionState {
+  if (state.screen === GameState.PLAYING_AI) return state.ai;
+  if (state.screen === GameState.PLAYING_P2P) return state.commander;
+  return LiveConnectionState.DISCONNECTED;
+}
+
+export function getP2PCall(state: SessionState): P2PCall | null {
+  return state.screen === GameState.PLAYING_P2P ? state.call : null;
+}
@@ -0,0 +1,195 @@
+import { encodeWav } from '../utils/audioUtils';
+import { createCaptureNode, loadCaptureWorklet } from '../utils/captureWorklet';
+import { GEMINI_OUTPUT_SAMPLE_RATE } from '../utils/playbackWorklet';
+import { CommanderPersona, MessageLog, NegotiationOutcome, RecordedTranscriptEntry, RecordingChannel, RecordingManifest } from '../types';
+import { t } from '../i18n';
+
+// Both channels are resampled to the commander's output rate
+const RECORDING_SAMPLE_RATE = GEMINI_OUTPUT_SAMPLE_RATE;
+const RECORDING_CHUNK_SIZE = 2400; // 100 ms
+// Chunks arriving later than this after the previous one open a new segment
+const GAP_TOLERANCE_MS = 250;
+
+const CHANNEL_INDEX: Record<RecordingChannel, number> = { local: 0, remote: 1 };
+
+interface Segment {
+  channel: RecordingChannel;
+  startMs: number;
+  chunks: Int16Array[];
+  sampleCount: number;
+}
+
+interface Tap {
+  channel: RecordingChannel;
+  source: AudioNode;
+  node: AudioWorkletNode;
+}
+
+// Opt-in recorder for a session. Services tap their audio graph into it; each
+// channel is captured as timestamped segments, so reconnects and rebuilt audio
+// contexts leave silence in the right place instead of shifting the timeline.
+export class SessionRecorder {
+  private mode: RecordingManifest['mode'];
+  private startedAt = Date.now();
+  private startTime = performance.now();
+  private endedAt: number | null = null;
+
+  private segments: Segment[] = [];
+  private openSegments = new Map<RecordingChannel, Segment>();
+  private taps: Tap[] = [];
+
+  private persona: CommanderPersona | null = null;
+  private participants = new Set<string>();
+  private outcome: NegotiationOutcome | null = null;
+  private transcript: RecordedTranscriptEntry[] = [];
+
+  constructor(mode: RecordingManifest['mode']) {
+    this.mode = mode;
+  }
+
+  get isRecording(): boolean {
+    return this.endedAt === null;
+  }
+
+  get hasAudio(): boolean {
+    return this.segments.some(s => s.sampleCount > 0);
+  }
+
+  // Records everything `source` outputs on the given channel until stop() or
+  // until the source's context is closed
+  async attach(channel: RecordingChannel, ctx: BaseAudioContext, source: AudioNode) {
+    if (!this.isRecording) return;
+    await loadCaptureWorklet(ctx);
+    if (!this.isRecording) return;
+
+    this.detach(channel);
+    const node = createCaptureNode(ctx, {
+      targetSampleRate: RECORDING_SAMPLE_RATE,
+      chunkSize: RECORDING_CHUNK_SIZE,
+    });
+    node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => {
+      this.pushChunk(channel, new Int16Array(e.data));
+    };
+    source.connect(node);
+    // The worklet outputs silence; connecting it keeps it pulled by the graph
+    node.connect(ctx.destination);
+    this.taps.push({ channel, source, node });
+  }
+
+  detach(channel: RecordingChannel) {
+    this.taps
+      .filter(tap => tap.channel === channel)
+      .forEach(tap => {
+        tap.node.port.onmessage = null;
+        try {
+          tap.source.disconnect(tap.node);
+          tap.node.disconnect();
+        } catch (e) {
+          // Already disconnected when the context was closed
+        }
+      });
+    this.taps = this.taps.filter(tap => tap.channel !== channel);
+    this.openSegments.delete(channel);
+  }
+
+  setPersona(persona: CommanderPersona) {
+    this.persona = persona;
+  }
+
+  addParticipant(peerId: string) {
+    this.participants.add(peerId);
+  }
+
+  addTranscript(entry: MessageLog) {
+    if (!this.isRecording) return;
+    this.transcript.push({ ...entry, atMs: this.elapsedMs() });
+  }
+
+  setOutcome(outcome: NegotiationOutcome) {
+    this.outcome = outcome;
+  }
+
+  stop() {
+    if (!this.isRecording) return;
+    this.detach('local');
+    this.detach('remote');
+    this.endedAt = Date.now();
+  }
+
+  toWav(): Blob {
+    const frameCount = Math.ceil(this.durationMs() * RECORDING_SAMPLE_RATE / 1000);
+    const channels: Int16Array[] = [new Int16Array(frameCount), new Int16Array(frameCount)];
+
+    this.segments.forEach((segment) => {
+      const target = channels[CHANNEL_INDEX[segment.channel]];
+      let offset = Math.round(segment.startMs * RECORDING_SAMPLE_RATE / 1000);
+      for (const chunk of segment.chunks) {
+        if (offset >= frameCount) break;
+        target.set(chunk.subarray(0, frameCount - offset), offset);
+        offset += chunk.length;
+      }
+    });
+
+    return new Blob([encodeWav(channels, RECORDING_SAMPLE_RATE)], { type: 'audio/wav' });
+  }
+
+  toManifest(): RecordingManifest {
+    return {
+      version: 1,
+      mode: this.mode,
+      startedAt: new Date(this.startedAt).toISOString(),
+      endedAt: this.endedAt !== null ? new Date(this.endedAt).toISOString() : null,
+      durationMs: Math.round(this.durationMs()),
+      sampleRate: RECORDING_SAMPLE_RATE,
+      channels: {
+        local: { index: CHANNEL_INDEX.local, description: t('recording.localChannel') },
+        remote: {
+          index: CHANNEL_INDEX.remote,
+          description: this.mode === 'ai' ? t('recording.commanderChannel') : t('recording.fleetChannel'),
+        },
+      },
+      segments: this.segments.map(s => ({
+        channel: s.channel,
+        startMs: Math.round(s.startMs),
+        durationMs: Math.round(s.sampleCount * 1000 / RECORDING_SAMPLE_RATE),
+      })),
+      persona: this.persona
+        ? { id: this.persona.id, name: this.persona.name, voiceName: this.persona.voiceName }
+        : null,
+      participants: Array.from(this.participants),
+      outcome: this.outcome,
+      transcript: this.transcript,
+    };
+  }
+
+  private pushChunk(channel: RecordingChannel, chunk: Int16Array) {
+    if (!this.isRecording || chunk.length === 0) return;
+
+    // The chunk ends now; place it by its first sample
+    const chunkMs = chunk.length * 1000 / RECORDING_SAMPLE_RATE;
+    const startMs = Math.max(0, this.elapsedMs() - chunkMs);
+
+    let segment = this.openSegments.get(channel);
+    const expectedMs = segment ? segment.startMs + segment.sampleCount * 1000 / RECORDING_SAMPLE_RATE : 0;
+    if (!segment || startMs - expectedMs > GAP_TOLERANCE_MS) {
+      segment = { channel, startMs, chunks: [], sampleCount: 0 };
+      this.segments.push(segment);
+      this.openSegments.set(channel, segment);
+    }
+    segment.chunks.push(chunk);
+    segment.sampleCount += chunk.length;
+  }
+
+  private elapsedMs(): number {
+    return performance.now() - this.startTime;
+  }
+
+  private durationMs(): number {
+    const lastSampleMs = this.segments.reduce(
+      (max, s) => Math.max(max, s.startMs + s.sampleCount * 1000 / RECORDING_SAMPLE_RATE),
+      0
+    );
+    const endMs = this.endedAt !== null ? this.endedAt - this.startedAt : this.elapsedMs();
+    return Math.max(lastSampleMs, endMs);
+  }
+}
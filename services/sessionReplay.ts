@@ -0,0 +1,129 @@
+import { ArchivedChunk, ArchivedSession } from '../types';
+
+export interface LevelSample {
+  t: number;
+  input: number;
+  output: number;
+}
+
+export interface ReplayTracks {
+  durationMs: number;
+  mic: AudioBuffer | null;
+  ai: AudioBuffer | null;
+  levels: LevelSample[];
+}
+
+interface Placement {
+  startMs: number;
+  // Samples actually played; less than the chunk when an interruption cut it
+  samples: Int16Array;
+  sampleRate: number;
+}
+
+type AudioChunk = Extract<ArchivedChunk, { kind: 'audio' }>;
+
+const chunkDurationMs = (samples: Int16Array, sampleRate: number) => samples.length * 1000 / sampleRate;
+
+// Mic chunks are timestamped when captured, i.e. when their last sample arrived
+function placeMicChunks(chunks: AudioChunk[]): Placement[] {
+  let cursorMs = 0;
+  return chunks.map((chunk) => {
+    const samples = new Int16Array(chunk.samples);
+    const durationMs = chunkDurationMs(samples, chunk.sampleRate);
+    const startMs = Math.max(chunk.t - durationMs, cursorMs);
+    cursorMs = startMs + durationMs;
+    return { startMs, samples, sampleRate: chunk.sampleRate };
+  });
+}
+
+// The commander's audio arrives faster than real time and is played back to
+// back, so each chunk starts when it arrived or when the previous one ended.
+// An interruption drops whatever had not been played yet.
+function placeAiChunks(chunks: (AudioChunk | Extract<ArchivedChunk, { kind: 'interrupted' }>)[]): Placement[] {
+  let placements: Placement[] = [];
+  let cursorMs = 0;
+
+  chunks.forEach((chunk) => {
+    if (chunk.kind === 'interrupted') {
+      const cutMs = chunk.t;
+      placements = placements
+        .filter(p => p.startMs < cutMs)
+        .map((p) => {
+          const maxSamples = Math.floor((cutMs - p.startMs) * p.sampleRate / 1000);
+          return p.samples.length > maxSamples ? { ...p, samples: p.samples.subarray(0, maxSamples) } : p;
+        });
+      cursorMs = Math.min(cursorMs, cutMs);
+      return;
+    }
+
+    const samples = new Int16Array(chunk.samples);
+    const startMs = Math.max(chunk.t, cursorMs);
+    cursorMs = startMs + chunkDurationMs(samples, chunk.sampleRate);
+    placements.push({ startMs, samples, sampleRate: chunk.sampleRate });
+  });
+
+  return placements;
+}
+
+function renderTrack(ctx: BaseAudioContext, placements: Placement[], durationMs: number): AudioBuffer | null {
+  if (placements.length === 0) return null;
+  const sampleRate = placements[0].sampleRate;
+  const length = Math.max(1, Math.ceil(durationMs * sampleRate / 1000));
+  const buffer = ctx.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  placements.forEach(({ startMs, samples }) => {
+    const offset = Math.round(startMs * sampleRate / 1000);
+    const count = Math.min(samples.length, length - offset);
+    for (let i = 0; i < count; i++) {
+      data[offset + i] = samples[i] / 32768.0;
+    }
+  });
+  return buffer;
+}
+
+// Rebuilds a saved session as two playable tracks (pilot and commander) plus
+// the level samples that drive the visualizers
+export function buildReplay(session: ArchivedSession, ctx: BaseAudioContext): ReplayTracks {
+  const audio = session.chunks.filter((c): c is AudioChunk => c.kind === 'audio');
+  const mic = placeMicChunks(audio.filter(c => c.source === 'mic').sort((a, b) => a.t - b.t));
+  const ai = placeAiChunks(
+    session.chunks
+      .filter((c): c is AudioChunk | Extract<ArchivedChunk, { kind: 'interrupted' }> =>
+        c.kind === 'interrupted' || (c.kind === 'audio' && c.source === 'ai'))
+      .sort((a, b) => a.t - b.t)
+  );
+  const levels = session.chunks
+    .flatMap(c => c.kind === 'levels' ? c.samples : [])
+    .sort((a, b) => a.t - b.t);
+
+  const endOf = (p: Placement) => p.startMs + chunkDurationMs(p.samples, p.sampleRate);
+  const durationMs = [...mic, ...ai].reduce(
+    (max, p) => Math.max(max, endOf(p)),
+    Math.max(session.durationMs, levels.length > 0 ? levels[levels.length - 1].t : 0)
+  );
+
+  return {
+    durationMs,
+    mic: renderTrack(ctx, mic, durationMs),
+    ai: renderTrack(ctx, ai, durationMs),
+    levels,
+  };
+}
+
+// Latest level sample at or before `t` (binary search)
+export function levelAt(levels: LevelSample[], t: number): LevelSample | null {
+  let lo = 0;
+  let hi = levels.length - 1;
+  let found: LevelSample | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (levels[mid].t <= t) {
+      found = levels[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
@@ -2,7 +2,9 @@ export enum GameState {
   MENU = 'MENU',
   PLAYING_AI = 'PLAYING_AI',
   PLAYING_P2P = 'PLAYING_P2P',
-  GAME_OVER = 'GAME_OVER'
+  GAME_OVER = 'GAME_OVER',
+  ARCHIVE = 'ARCHIVE',
+  CAMPAIGN = 'CAMPAIGN'
 }
 
 export interface AudioVisualizerData {
@@ -14,11 +16,442 @@ export interface MessageLog {
   id: string;
   sender: 'user' | 'ai';
   text: string;
+  // Who spoke, when several pilots share the commander's channel
+  speaker?: string;
 }
 
-export enum P2PState {
+export enum LiveConnectionState {
   DISCONNECTED = 'DISCONNECTED',
+  CONNECTING = 'CONNECTING',
+  CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING'
+}
+
+export type NegotiationResult = 'victory' | 'defeat';
+
+export interface NegotiationOutcome {
+  result: NegotiationResult;
+  reason: string;
+}
+
+export interface CommanderPersona {
+  id: string;
+  name: string;
+  // Short blurb shown on the MENU card
+  description: string;
+  // SVG path data drawn in a 100x100 viewBox
+  portrait: string;
+  // Prebuilt Gemini voice (e.g. 'Kore', 'Charon', 'Puck')
+  voiceName: string;
+  // Optional model override; LiveService falls back to its default model
+  model?: string;
+  systemInstruction: string;
+  openingLine: string;
+  // Conditions under which the commander grants safe passage
+  winConditions: string[];
+  translations?: LocalizedText<'name' | 'description'>;
+}
+
+// Session recording: channel 0 of the WAV is the local pilot, channel 1 the
+// commander (AI mode) or the other pilots (P2P mode)
+export type RecordingChannel = 'local' | 'remote';
+
+export interface RecordingSegment {
+  channel: RecordingChannel;
+  // Position in the recording, relative to its start
+  startMs: number;
+  durationMs: number;
+}
+
+export interface RecordedTranscriptEntry extends MessageLog {
+  atMs: number;
+}
+
+export interface RecordingManifest {
+  version: 1;
+  mode: 'ai' | 'p2p';
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  sampleRate: number;
+  channels: Record<RecordingChannel, { index: number; description: string }>;
+  segments: RecordingSegment[];
+  persona: { id: string; name: string; voiceName: string } | null;
+  participants: string[];
+  outcome: NegotiationOutcome | null;
+  transcript: RecordedTranscriptEntry[];
+}
+
+// Session archive (IndexedDB): every AI session is kept for replay
+export interface ArchivedSessionSummary {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  durationMs: number;
+  personaId: string;
+  personaName: string;
+  outcome: NegotiationOutcome | null;
+  transcript: RecordedTranscriptEntry[];
+}
+
+// Timestamps (`t`) are milliseconds since the session started
+export type ArchivedChunk =
+  | { kind: 'audio'; source: 'mic' | 'ai'; t: number; sampleRate: number; samples: ArrayBuffer }
+  | { kind: 'levels'; samples: { t: number; input: number; output: number }[] }
+  // The commander was interrupted: AI audio not yet played at `t` was dropped
+  | { kind: 'interrupted'; t: number };
+
+export interface ArchivedSession extends ArchivedSessionSummary {
+  chunks: ArchivedChunk[];
+}
+
+// Microphone / speaker choice and browser audio processing, shared by both modes
+export interface AudioDeviceSettings {
+  // null = system default
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export enum P2PState {
   WAITING = 'WAITING',
-  CALLING = 'CALLING',
+  // We called a pilot who has not answered yet
+  DIALING = 'DIALING',
+  // A pilot is calling us
+  RINGING = 'RINGING',
   IN_CALL = 'IN_CALL'
-}
\ No newline at end of file
+}
+
+// Messages exchanged over the P2P data channel
+export interface ChatMessage {
+  type: 'chat';
+  id: string;
+  text: string;
+  sentAt: number;
+}
+
+export interface TypingMessage {
+  type: 'typing';
+  isTyping: boolean;
+}
+
+export type GameEventKind = 'offer' | 'accept' | 'reject';
+
+export interface GameEventMessage {
+  type: 'game-event';
+  id: string;
+  kind: GameEventKind;
+  // Offered terms (offer only)
+  terms?: string;
+  // Offer being answered (accept / reject only)
+  offerId?: string;
+  sentAt: number;
+}
+
+// Sent to a pilot joining the fleet channel so it can connect to everyone else (mesh)
+export interface RosterMessage {
+  type: 'roster';
+  peerIds: string[];
+}
+
+// Sent by the pilot who let a newcomer in to everyone else in the fleet: the
+// newcomer is about to call them, and its call joins without ringing
+export interface AnnounceMessage {
+  type: 'announce';
+  peerId: string;
+}
+
+// Negotiation match between two pilots: the guest sends intents, the host
+// applies them to the shared state machine and broadcasts the accepted events
+export interface MatchIntentMessage {
+  type: 'match-intent';
+  event: MatchEvent;
+}
+
+export interface MatchSyncMessage {
+  type: 'match-sync';
+  seq: number;
+  event: MatchEvent;
+}
+
+// The AI commander is hosted by one pilot and heard by the whole fleet through
+// that pilot's outgoing audio; this tells the others it joined, left or decided
+export interface CommanderMessage {
+  type: 'commander';
+  status: 'joined' | 'left' | 'outcome';
+  personaId: string;
+  outcome?: NegotiationOutcome;
+}
+
+// Call control sent over the data channel, so the other side knows why a call ended
+export interface CallSignalMessage {
+  type: 'call-signal';
+  signal: 'rejected' | 'busy' | 'hangup';
+}
+
+export type PeerMessage = ChatMessage | TypingMessage | GameEventMessage | RosterMessage | AnnounceMessage | MatchIntentMessage | MatchSyncMessage | CommanderMessage | CallSignalMessage;
+
+export interface ChatEntry {
+  from: 'local' | 'remote';
+  // Sender id for remote entries
+  peerId?: string;
+  message: ChatMessage | GameEventMessage;
+}
+
+export type MatchRole = 'commander' | 'diplomat';
+
+// Private to one role until the match is resolved
+export interface MatchBriefing {
+  objective: string;
+  // Worst toll this role may accept (commander: minimum, diplomat: maximum)
+  limit: number;
+  // Toll this role should aim for
+  target: number;
+}
+
+export interface MatchScenario {
+  id: string;
+  title: string;
+  // Public situation both pilots see
+  setting: string;
+  // Unit of the negotiated toll (e.g. 'créditos')
+  unit: string;
+  roundSeconds: number;
+  briefings: Record<MatchRole, MatchBriefing>;
+  translations?: LocalizedText<'title' | 'setting' | 'unit' | 'commanderObjective' | 'diplomatObjective'>;
+}
+
+export enum MatchPhase {
+  BRIEFING = 'BRIEFING',
+  NEGOTIATING = 'NEGOTIATING',
+  RESOLVED = 'RESOLVED'
+}
+
+export interface MatchProposal {
+  id: string;
+  by: string;
+  amount: number;
+}
+
+export interface MatchResult {
+  deal: boolean;
+  amount: number | null;
+  reason: 'agreement' | 'walk-away' | 'timeout';
+  // Roles that ended within their hidden limit
+  winners: MatchRole[];
+}
+
+export interface MatchState {
+  phase: MatchPhase;
+  scenarioId: string;
+  // peerId -> role
+  roles: Record<string, MatchRole>;
+  ready: string[];
+  deadline: number | null;
+  proposal: MatchProposal | null;
+  result: MatchResult | null;
+}
+
+export type MatchEvent =
+  | { kind: 'start'; scenarioId: string; roles: Record<string, MatchRole>; at: number }
+  | { kind: 'ready'; peerId: string; at: number }
+  | { kind: 'propose'; peerId: string; proposalId: string; amount: number }
+  | { kind: 'confirm'; peerId: string; proposalId: string }
+  | { kind: 'walk-away'; peerId: string }
+  | { kind: 'timeout'; at: number };
+
+// Signaling server and ICE settings for PeerService. Unset fields fall back to
+// the public PeerJS cloud and the browser's default ICE servers.
+export interface PeerServiceConfig {
+  host?: string;
+  port?: number;
+  path?: string;
+  secure?: boolean;
+  key?: string;
+  iceServers?: RTCIceServer[];
+  // PeerJS log level (0-3)
+  debug?: number;
+  // How long a call may ring (either direction) before it is given up
+  ringTimeoutMs?: number;
+}
+
+// Why a call with one pilot ended
+export type CallEndReason =
+  | 'local-hangup'
+  | 'remote-hangup'
+  | 'rejected'
+  | 'declined'
+  | 'busy'
+  | 'no-answer'
+  | 'cancelled'
+  | 'unavailable'
+  | 'connection-lost'
+  | 'failed';
+
+export type IceCandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface IceDiagnostics {
+  candidates: { type: IceCandidateType; protocol: string; address: string }[];
+  counts: Record<IceCandidateType, number>;
+  // True if gathering finished before the timeout
+  complete: boolean;
+  durationMs: number;
+}
+
+// Network health of one P2P call, sampled from RTCPeerConnection.getStats()
+export type ConnectionQualityLevel = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface ConnectionQuality {
+  level: ConnectionQualityLevel;
+  // Round-trip time of the selected candidate pair
+  rttMs: number | null;
+  // Jitter of the audio we receive
+  jitterMs: number | null;
+  // Share of incoming audio packets lost since the previous sample (0-100)
+  packetLossPercent: number | null;
+  // Audio bitrate since the previous sample
+  sendKbps: number | null;
+  receiveKbps: number | null;
+  // Path of the selected candidate pair: relay if either side goes through TURN
+  candidateType: IceCandidateType | null;
+}
+
+// Effect applied to our voice before the fleet hears it
+export type VoiceEffect = 'none' | 'alien' | 'robot' | 'radio' | 'swarm';
+
+// How the Visualizer draws its audio
+export type VisualizerStyle = 'bars' | 'oscilloscope' | 'radial';
+
+// Campaign: a sequence of AI negotiations whose results carry over
+export type CampaignDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface CampaignSector {
+  id: string;
+  name: string;
+  description: string;
+  personaId: string;
+  difficulty: CampaignDifficulty;
+  // Resources gained by winning the sector
+  reward: number;
+  // Reputation gained on victory and lost on defeat
+  reputationGain: number;
+  reputationLoss: number;
+  translations?: LocalizedText<'name' | 'description'>;
+}
+
+export interface CampaignEncounter {
+  sectorId: string;
+  personaId: string;
+  result: NegotiationResult;
+  // The commander's stated reason for the decision
+  reason: string;
+  // The pilot ended the transmission before the commander decided; counts as a defeat
+  retreated?: boolean;
+  // Last things the pilot said, so the commander can remember them
+  playerLines: string[];
+  // ISO date
+  at: string;
+}
+
+export interface CampaignProgress {
+  version: 1;
+  // 0 to 100
+  reputation: number;
+  resources: number;
+  encounters: CampaignEncounter[];
+}
+
+// How the pilot talks to an AI commander: microphone only, microphone plus a
+// text box (falling back to text alone without a microphone), or text only
+export type CommanderInputMode = 'voice' | 'mixed' | 'text';
+
+// How the AI commander answers
+export type CommanderReplyMode = 'audio' | 'text';
+
+// UI language, which also sets the language the commanders speak
+export type Locale = 'pt-BR' | 'en' | 'es';
+
+// Player-facing text of a data entry (persona, scenario, sector) in the other
+// locales; the entry's own fields hold the pt-BR text
+export type LocalizedText<K extends string> = Partial<Record<Locale, Record<K, string>>>;
+
+// Post-session conversation analytics, derived from the services' level meters
+export interface SpeakerStats {
+  id: string;
+  label: string;
+  talkTimeMs: number;
+  // Share of everyone's talk time, 0 to 1
+  talkShare: number;
+  // Times this speaker took the floor from someone else
+  turns: number;
+  // Times this speaker cut the commander off (server barge-in events)
+  interruptions: number;
+  // Times this speaker started while someone else was still talking
+  overlaps: number;
+}
+
+export interface LatencyStats {
+  count: number;
+  averageMs: number;
+  minMs: number;
+  maxMs: number;
+}
+
+export interface ConversationSummary {
+  version: 1;
+  mode: 'ai' | 'p2p';
+  startedAt: string;
+  durationMs: number;
+  speakers: SpeakerStats[];
+  // Stretches where nobody talked (only gaps of at least one second count)
+  silences: { count: number; totalMs: number; longestMs: number };
+  // End of the pilot's speech to the commander's first audio chunk; null without an AI commander
+  responseLatency: LatencyStats | null;
+}
+
+// App session lifecycle (see services/sessionMachine.ts). Each screen only
+// carries the fields that make sense on it.
+export type PendingAction = 'ai-start' | 'p2p-start' | 'dial' | 'answer' | 'summon';
+
+export type P2PCall =
+  | { phase: P2PState.WAITING }
+  | { phase: P2PState.DIALING; peerId: string }
+  | { phase: P2PState.RINGING; peerId: string }
+  // incomingPeerId: someone outside the fleet calling while we are in it
+  | { phase: P2PState.IN_CALL; incomingPeerId?: string };
+
+interface SessionBase {
+  // User action still in flight; others are refused until it settles
+  pending: PendingAction | null;
+  error: string | null;
+}
+
+export type SessionState =
+  | (SessionBase & { screen: GameState.MENU | GameState.ARCHIVE | GameState.CAMPAIGN | GameState.GAME_OVER })
+  | (SessionBase & { screen: GameState.PLAYING_AI; ai: LiveConnectionState })
+  | (SessionBase & { screen: GameState.PLAYING_P2P; call: P2PCall; commander: LiveConnectionState });
+
+export type SessionEvent =
+  | { kind: 'ai-start' }
+  | { kind: 'ai-state'; state: LiveConnectionState }
+  | { kind: 'ai-error'; message: string }
+  | { kind: 'ai-stop' }
+  | { kind: 'p2p-start' }
+  | { kind: 'p2p-stop'; next: GameState.MENU | GameState.GAME_OVER }
+  | { kind: 'dial'; peerId: string }
+  | { kind: 'incoming-call'; peerId: string }
+  | { kind: 'answer' }
+  | { kind: 'participant-joined'; peerId: string }
+  // `remaining` counts the pilots still connected or being dialed
+  | { kind: 'call-ended'; peerId: string; message: string | null; remaining: number }
+  | { kind: 'calls-closed' }
+  | { kind: 'summon' }
+  | { kind: 'commander-dismissed' }
+  | { kind: 'action-done' }
+  | { kind: 'action-failed'; message: string }
+  | { kind: 'error'; message: string }
+  | { kind: 'open-archive' }
+  | { kind: 'open-campaign' }
+  | { kind: 'back-to-menu' };
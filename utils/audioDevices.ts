@@ -0,0 +1,91 @@
+import { AudioDeviceSettings } from '../types';
+
+const SETTINGS_STORAGE_KEY = 'comunicador-audio-settings';
+
+export const DEFAULT_AUDIO_SETTINGS: AudioDeviceSettings = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export interface AudioDeviceLists {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AudioContext.setSinkId is not in every browser (nor in the DOM typings yet)
+type SinkCapableContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export function loadAudioSettings(): AudioDeviceSettings {
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AUDIO_SETTINGS;
+  } catch (e) {
+    console.warn("Invalid stored audio settings, using defaults", e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioDeviceSettings) {
+  try {
+    window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save audio settings", e);
+  }
+}
+
+export function buildAudioConstraints(settings: AudioDeviceSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.inputDeviceId ? { exact: settings.inputDeviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+}
+
+// True when the microphone has to be reopened for the new settings to apply
+export function inputSettingsChanged(a: AudioDeviceSettings, b: AudioDeviceSettings): boolean {
+  return a.inputDeviceId !== b.inputDeviceId
+    || a.echoCancellation !== b.echoCancellation
+    || a.noiseSuppression !== b.noiseSuppression
+    || a.autoGainControl !== b.autoGainControl;
+}
+
+export async function openMicrophone(settings: AudioDeviceSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(settings), video: false });
+  } catch (e: any) {
+    // The chosen microphone is gone: fall back to the default one
+    if (settings.inputDeviceId && (e?.name === 'OverconstrainedError' || e?.name === 'NotFoundError')) {
+      console.warn("Selected microphone unavailable, using the default one", e);
+      return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints({ ...settings, inputDeviceId: null }), video: false });
+    }
+    throw e;
+  }
+}
+
+export async function listAudioDevices(): Promise<AudioDeviceLists> {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput'),
+  };
+}
+
+export function supportsOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+// Routes an <audio> element or an AudioContext to the chosen speaker ('' = default)
+export async function applySinkId(target: HTMLMediaElement | AudioContext, deviceId: string | null) {
+  const sinkTarget = target as HTMLMediaElement | SinkCapableContext;
+  if (typeof sinkTarget.setSinkId !== 'function') return;
+  try {
+    await sinkTarget.setSinkId(deviceId ?? '');
+  } catch (e) {
+    console.warn("Could not switch audio output device", e);
+  }
+}
@@ -22,7 +22,7 @@ export function encodeBase64(bytes: Uint8Array): string {
 }
 
 // Converts raw PCM data (Float32Array from AudioContext) to 16-bit PCM Blob for Gemini
-export function createPcmBlob(data: Float32Array): Blob {
+export function createPcmBlob(data: Float32Array, sampleRate: number = 16000): Blob {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -30,21 +30,42 @@ export function createPcmBlob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16ToPcmBlob(int16, sampleRate);
+}
+
+// Wraps already-converted 16-bit PCM samples in a Blob labelled with their real sample rate
+export function int16ToPcmBlob(int16: Int16Array, sampleRate: number = 16000): Blob {
   return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    data: encodeBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
 
+// Reads little-endian 16-bit PCM from a byte view. Respects byteOffset (views into a
+// larger buffer) and ignores a trailing odd byte instead of throwing.
+export function pcmBytesToInt16(data: Uint8Array): Int16Array {
+  const sampleCount = Math.floor(data.byteLength / 2);
+  if (data.byteOffset % 2 === 0) {
+    return new Int16Array(data.buffer, data.byteOffset, sampleCount);
+  }
+  // Unaligned view: Int16Array cannot start at an odd offset, so copy
+  const view = new DataView(data.buffer, data.byteOffset, sampleCount * 2);
+  const int16 = new Int16Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    int16[i] = view.getInt16(i * 2, true);
+  }
+  return int16;
+}
+
 // Converts raw PCM bytes from Gemini to an AudioBuffer for playback
 export function pcmToAudioBuffer(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1
 ): AudioBuffer {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const dataInt16 = pcmBytesToInt16(data);
+  const frameCount = Math.floor(dataInt16.length / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
@@ -54,4 +75,78 @@ export function pcmToAudioBuffer(
     }
   }
   return buffer;
-}
\ No newline at end of file
+}
+
+const loadedWorklets = new WeakMap<BaseAudioContext, Set<string>>();
+
+// Registers an AudioWorklet module from source text (once per context).
+// Loading through a Blob URL works both with Vite and the AI Studio import map build.
+export async function loadWorkletSource(ctx: BaseAudioContext, name: string, source: string): Promise<void> {
+  const loaded = loadedWorklets.get(ctx) ?? new Set<string>();
+  if (loaded.has(name)) return;
+
+  const url = URL.createObjectURL(new window.Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loaded.add(name);
+    loadedWorklets.set(ctx, loaded);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Analyser size for the visualizers: 512 frequency bins and a ~20 ms waveform at 24 kHz
+export const ANALYSER_FFT_SIZE = 1024;
+
+// RMS of the analyser's current waveform (0 to 1)
+export function measureLevel(analyser: AnalyserNode): number {
+  const data = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(data);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+  return Math.sqrt(sum / data.length);
+}
+
+// Level (0-255) above which a voice counts as speaking
+export const SPEAKING_LEVEL = 10;
+
+// Level on the 0-255 scale shared by the speaking indicators and the session archive
+export function measureByteLevel(analyser: AnalyserNode): number {
+  return Math.min(255, measureLevel(analyser) * 255);
+}
+
+// Interleaves equally long 16-bit PCM channels into a RIFF/WAVE file
+export function encodeWav(channels: Int16Array[], sampleRate: number): ArrayBuffer {
+  const numChannels = channels.length;
+  const frameCount = numChannels > 0 ? channels[0].length : 0;
+  const dataSize = frameCount * numChannels * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true); // byte rate
+  view.setUint16(32, numChannels * 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      view.setInt16(offset, channels[c][i], true);
+      offset += 2;
+    }
+  }
+  return buffer;
+}
@@ -0,0 +1,108 @@
+import { loadWorkletSource } from './audioUtils';
+
+// AudioWorklet that captures microphone audio off the main thread, resamples it
+// from the context's real sample rate to the rate Gemini expects and posts
+// 16-bit PCM chunks back to the main thread.
+
+export const CAPTURE_PROCESSOR_NAME = 'pcm-capture-processor';
+
+export const GEMINI_INPUT_SAMPLE_RATE = 16000;
+export const DEFAULT_CAPTURE_CHUNK_SIZE = 2048;
+
+export interface CaptureProcessorOptions {
+  // Output sample rate in Hz
+  targetSampleRate: number;
+  // Number of output samples per posted chunk
+  chunkSize: number;
+}
+
+const CAPTURE_PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.targetRate = opts.targetSampleRate || ${GEMINI_INPUT_SAMPLE_RATE};
+    this.chunkSize = opts.chunkSize || ${DEFAULT_CAPTURE_CHUNK_SIZE};
+    this.ratio = sampleRate / this.targetRate;
+
+    // Read position in input samples, relative to the start of the current block.
+    // -1 refers to the last sample of the previous block.
+    this.position = 0;
+    this.lastSample = 0;
+
+    // One-pole low-pass below the target Nyquist to limit aliasing when downsampling
+    this.alpha = this.ratio > 1
+      ? 1 - Math.exp(-2 * Math.PI * (this.targetRate * 0.45) / sampleRate)
+      : 1;
+    this.filterState = 0;
+    this.scratch = null;
+
+    this.chunk = new Int16Array(this.chunkSize);
+    this.chunkIndex = 0;
+
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === 'flush') this.flush();
+    };
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.chunkIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    if (this.chunkIndex === this.chunkSize) this.flush();
+  }
+
+  flush() {
+    if (this.chunkIndex === 0) return;
+    const out = this.chunk.slice(0, this.chunkIndex);
+    this.port.postMessage(out.buffer, [out.buffer]);
+    this.chunkIndex = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel || channel.length === 0) return true;
+
+    const n = channel.length;
+    if (!this.scratch || this.scratch.length !== n) this.scratch = new Float32Array(n);
+    const filtered = this.scratch;
+
+    let state = this.filterState;
+    for (let i = 0; i < n; i++) {
+      state += this.alpha * (channel[i] - state);
+      filtered[i] = state;
+    }
+    this.filterState = state;
+
+    // Linear interpolation between neighbouring input samples
+    let p = this.position;
+    while (p < n - 1) {
+      const idx = Math.floor(p);
+      const frac = p - idx;
+      const a = idx < 0 ? this.lastSample : filtered[idx];
+      const b = filtered[idx + 1];
+      this.push(a + (b - a) * frac);
+      p += this.ratio;
+    }
+    this.position = p - n;
+    this.lastSample = filtered[n - 1];
+
+    return true;
+  }
+}
+
+registerProcessor('${CAPTURE_PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export function loadCaptureWorklet(ctx: BaseAudioContext): Promise<void> {
+  return loadWorkletSource(ctx, CAPTURE_PROCESSOR_NAME, CAPTURE_PROCESSOR_SOURCE);
+}
+
+export function createCaptureNode(ctx: BaseAudioContext, options: CaptureProcessorOptions): AudioWorkletNode {
+  return new AudioWorkletNode(ctx, CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: options,
+  });
+}
@@ -0,0 +1,123 @@
+import { ConnectionQuality, ConnectionQualityLevel, IceCandidateType } from '../types';
+
+// Cumulative counters of one getStats() call; quality is computed from the
+// difference between two consecutive snapshots
+export interface StatsSnapshot {
+  at: number;
+  rttMs: number | null;
+  jitterMs: number | null;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+  candidateType: IceCandidateType | null;
+}
+
+// Worst value still counted in each level (RTT ms, jitter ms, loss %)
+const LEVEL_LIMITS: { level: ConnectionQualityLevel; rttMs: number; jitterMs: number; lossPercent: number }[] = [
+  { level: 'excellent', rttMs: 150, jitterMs: 20, lossPercent: 1 },
+  { level: 'good', rttMs: 300, jitterMs: 40, lossPercent: 3 },
+  { level: 'fair', rttMs: 500, jitterMs: 80, lossPercent: 8 },
+];
+
+// Ranked so that the pair takes the least direct of its two sides
+const CANDIDATE_RANK: Record<IceCandidateType, number> = { host: 0, srflx: 1, prflx: 2, relay: 3 };
+
+function findSelectedPair(report: RTCStatsReport): any {
+  let selectedId: string | undefined;
+  report.forEach((stats: any) => {
+    if (stats.type === 'transport' && stats.selectedCandidatePairId) selectedId = stats.selectedCandidatePairId;
+  });
+  if (selectedId) return report.get(selectedId);
+
+  // Firefox marks the pair itself instead of exposing a transport
+  let fallback: any;
+  report.forEach((stats: any) => {
+    if (stats.type !== 'candidate-pair') return;
+    if (stats.selected || (!fallback && stats.nominated && stats.state === 'succeeded')) fallback = stats;
+  });
+  return fallback;
+}
+
+function getPairType(report: RTCStatsReport, pair: any): IceCandidateType | null {
+  const types = [report.get(pair.localCandidateId), report.get(pair.remoteCandidateId)]
+    .map(candidate => candidate?.candidateType as IceCandidateType | undefined)
+    .filter((type): type is IceCandidateType => !!type && type in CANDIDATE_RANK);
+  if (types.length === 0) return null;
+  return types.reduce((worst, type) => CANDIDATE_RANK[type] > CANDIDATE_RANK[worst] ? type : worst);
+}
+
+// Reads the audio counters and the selected path out of a getStats() report
+export function readStatsSnapshot(report: RTCStatsReport): StatsSnapshot {
+  const snapshot: StatsSnapshot = {
+    at: performance.now(),
+    rttMs: null,
+    jitterMs: null,
+    bytesSent: 0,
+    bytesReceived: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+    candidateType: null,
+  };
+
+  const pair = findSelectedPair(report);
+  if (pair) {
+    if (typeof pair.currentRoundTripTime === 'number') snapshot.rttMs = pair.currentRoundTripTime * 1000;
+    snapshot.candidateType = getPairType(report, pair);
+  }
+
+  report.forEach((stats: any) => {
+    if (stats.kind !== 'audio') return;
+    if (stats.type === 'inbound-rtp') {
+      snapshot.bytesReceived += stats.bytesReceived ?? 0;
+      snapshot.packetsReceived += stats.packetsReceived ?? 0;
+      snapshot.packetsLost += Math.max(0, stats.packetsLost ?? 0);
+      if (typeof stats.jitter === 'number') snapshot.jitterMs = Math.max(snapshot.jitterMs ?? 0, stats.jitter * 1000);
+    } else if (stats.type === 'outbound-rtp') {
+      snapshot.bytesSent += stats.bytesSent ?? 0;
+    } else if (stats.type === 'remote-inbound-rtp' && snapshot.rttMs === null && typeof stats.roundTripTime === 'number') {
+      // Browsers without the pair's RTT still report it from RTCP
+      snapshot.rttMs = stats.roundTripTime * 1000;
+    }
+  });
+
+  return snapshot;
+}
+
+function rateQuality(rttMs: number | null, jitterMs: number | null, lossPercent: number | null): ConnectionQualityLevel {
+  const match = LEVEL_LIMITS.find(limits =>
+    (rttMs ?? 0) <= limits.rttMs
+    && (jitterMs ?? 0) <= limits.jitterMs
+    && (lossPercent ?? 0) <= limits.lossPercent
+  );
+  return match?.level ?? 'poor';
+}
+
+// Quality over the interval between two snapshots; without a previous one
+// only the instantaneous values (RTT, jitter, path) are known
+export function computeConnectionQuality(current: StatsSnapshot, previous: StatsSnapshot | null): ConnectionQuality {
+  let packetLossPercent: number | null = null;
+  let sendKbps: number | null = null;
+  let receiveKbps: number | null = null;
+
+  if (previous) {
+    const seconds = (current.at - previous.at) / 1000;
+    if (seconds > 0) {
+      sendKbps = Math.max(0, current.bytesSent - previous.bytesSent) * 8 / 1000 / seconds;
+      receiveKbps = Math.max(0, current.bytesReceived - previous.bytesReceived) * 8 / 1000 / seconds;
+    }
+    const lost = Math.max(0, current.packetsLost - previous.packetsLost);
+    const received = Math.max(0, current.packetsReceived - previous.packetsReceived);
+    if (lost + received > 0) packetLossPercent = lost / (lost + received) * 100;
+  }
+
+  return {
+    level: rateQuality(current.rttMs, current.jitterMs, packetLossPercent),
+    rttMs: current.rttMs,
+    jitterMs: current.jitterMs,
+    packetLossPercent,
+    sendKbps,
+    receiveKbps,
+    candidateType: current.candidateType,
+  };
+}
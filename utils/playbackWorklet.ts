@@ -0,0 +1,169 @@
+import { loadWorkletSource } from './audioUtils';
+
+// AudioWorklet that plays streamed 16-bit PCM from a growable ring buffer.
+// Playback only starts once the jitter buffer holds `jitterTargetMs` of audio
+// (or no new audio arrived for that long), underruns fade out instead of
+// clicking, and a flush drops everything not yet rendered and reports how many
+// samples were consumed so far.
+
+export const PLAYBACK_PROCESSOR_NAME = 'pcm-playback-processor';
+
+export const GEMINI_OUTPUT_SAMPLE_RATE = 24000;
+export const DEFAULT_JITTER_TARGET_MS = 120;
+
+export interface PlaybackProcessorOptions {
+  // Sample rate of the pushed PCM, in Hz
+  sourceSampleRate: number;
+  jitterTargetMs: number;
+}
+
+export type PlaybackWorkletMessage =
+  | { type: 'push'; samples: ArrayBuffer }
+  | { type: 'flush'; requestId: number }
+  | { type: 'setJitterTarget'; ms: number };
+
+export interface PlaybackWorkletReply {
+  type: 'flushed';
+  requestId: number;
+  // Source samples rendered since the processor was created
+  consumedSamples: number;
+  // Source samples dropped by the flush
+  discardedSamples: number;
+}
+
+const PLAYBACK_PROCESSOR_SOURCE = `
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const opts = (options && options.processorOptions) || {};
+    this.sourceRate = opts.sourceSampleRate || ${GEMINI_OUTPUT_SAMPLE_RATE};
+    // Source samples advanced per rendered frame (handles contexts not running at the source rate)
+    this.ratio = this.sourceRate / sampleRate;
+
+    this.capacity = this.sourceRate * 10;
+    this.ring = new Float32Array(this.capacity);
+    this.readIndex = 0;
+    this.size = 0;
+    this.frac = 0;
+
+    this.playing = false;
+    this.idleFrames = 0;
+    this.setJitterTarget(opts.jitterTargetMs == null ? ${DEFAULT_JITTER_TARGET_MS} : opts.jitterTargetMs);
+
+    // Short fades (5 ms) used for concealment at underruns, flushes and restarts
+    this.gain = 0;
+    this.fadeStep = 1 / (sampleRate * 0.005);
+    this.lastSample = 0;
+
+    this.consumed = 0;
+
+    this.port.onmessage = (event) => this.onMessage(event.data);
+  }
+
+  setJitterTarget(ms) {
+    this.targetSamples = Math.max(0, Math.round(ms / 1000 * this.sourceRate));
+    this.targetFrames = Math.max(128, Math.round(ms / 1000 * sampleRate));
+  }
+
+  onMessage(msg) {
+    if (!msg) return;
+    if (msg.type === 'push') {
+      this.write(new Int16Array(msg.samples));
+    } else if (msg.type === 'flush') {
+      const discarded = this.size;
+      this.size = 0;
+      this.frac = 0;
+      this.playing = false;
+      this.port.postMessage({
+        type: 'flushed',
+        requestId: msg.requestId,
+        consumedSamples: this.consumed,
+        discardedSamples: discarded,
+      });
+    } else if (msg.type === 'setJitterTarget') {
+      this.setJitterTarget(msg.ms);
+    }
+  }
+
+  write(int16) {
+    const n = int16.length;
+    if (this.size + n > this.capacity) this.grow(this.size + n);
+    let w = (this.readIndex + this.size) % this.capacity;
+    for (let i = 0; i < n; i++) {
+      this.ring[w] = int16[i] / 32768;
+      w = w + 1 === this.capacity ? 0 : w + 1;
+    }
+    this.size += n;
+    this.idleFrames = 0;
+  }
+
+  grow(minCapacity) {
+    let capacity = this.capacity;
+    while (capacity < minCapacity) capacity *= 2;
+    const ring = new Float32Array(capacity);
+    for (let i = 0; i < this.size; i++) {
+      ring[i] = this.ring[(this.readIndex + i) % this.capacity];
+    }
+    this.ring = ring;
+    this.capacity = capacity;
+    this.readIndex = 0;
+  }
+
+  process(inputs, outputs) {
+    const out = outputs[0] && outputs[0][0];
+    if (!out) return true;
+    const n = out.length;
+
+    if (!this.playing && this.size > 0 &&
+        (this.size >= this.targetSamples || this.idleFrames >= this.targetFrames)) {
+      this.playing = true;
+    }
+    this.idleFrames += n;
+
+    for (let i = 0; i < n; i++) {
+      if (this.playing && this.size > 0) {
+        const a = this.ring[this.readIndex];
+        const b = this.size > 1 ? this.ring[(this.readIndex + 1) % this.capacity] : a;
+        this.lastSample = a + (b - a) * this.frac;
+        this.gain = Math.min(1, this.gain + this.fadeStep);
+        out[i] = this.lastSample * this.gain;
+
+        this.frac += this.ratio;
+        while (this.frac >= 1 && this.size > 0) {
+          this.frac -= 1;
+          this.readIndex = this.readIndex + 1 === this.capacity ? 0 : this.readIndex + 1;
+          this.size--;
+          this.consumed++;
+        }
+        if (this.size === 0) {
+          // Underrun: wait for the jitter buffer to refill
+          this.playing = false;
+          this.frac = 0;
+        }
+      } else {
+        // Conceal the gap by fading the last sample out instead of cutting to zero
+        this.gain = Math.max(0, this.gain - this.fadeStep);
+        out[i] = this.lastSample * this.gain;
+      }
+    }
+
+    for (let c = 1; c < outputs[0].length; c++) outputs[0][c].set(out);
+    return true;
+  }
+}
+
+registerProcessor('${PLAYBACK_PROCESSOR_NAME}', PcmPlaybackProcessor);
+`;
+
+export function loadPlaybackWorklet(ctx: BaseAudioContext): Promise<void> {
+  return loadWorkletSource(ctx, PLAYBACK_PROCESSOR_NAME, PLAYBACK_PROCESSOR_SOURCE);
+}
+
+export function createPlaybackNode(ctx: BaseAudioContext, options: PlaybackProcessorOptions): AudioWorkletNode {
+  return new AudioWorkletNode(ctx, PLAYBACK_PROCESSOR_NAME, {
+    numberOfInputs: 0,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    processorOptions: options,
+  });
+}
@@ -0,0 +1,200 @@
+import { VoiceEffect } from '../types';
+
+// Web Audio effects that disguise a pilot's voice before it goes out on the
+// calls. Everything is built from native nodes, so a chain can be swapped
+// synchronously while a call is up.
+
+interface VoiceEffectSettings {
+  // Pitch ratio (1 = unchanged)
+  pitch?: number;
+  // Scales the resonances of the voice up or down (1 = unchanged)
+  formant?: number;
+  // Ring modulator carrier in Hz, and how much of the modulated signal is heard
+  ringHz?: number;
+  ringMix?: number;
+  // Telephone-like band with distortion and static
+  radio?: boolean;
+}
+
+export const VOICE_EFFECT_PRESETS: Record<VoiceEffect, VoiceEffectSettings> = {
+  none: {},
+  alien: { pitch: 0.75, formant: 1.35 },
+  robot: { ringHz: 55, ringMix: 1 },
+  radio: { radio: true },
+  swarm: { pitch: 1.35, formant: 0.8, ringHz: 320, ringMix: 0.5 },
+};
+
+// Length of the delay window swept by the pitch shifter
+const PITCH_WINDOW_S = 0.1;
+// Centre frequencies of the first three formants of an average voice
+const FORMANT_BANDS_HZ = [500, 1500, 2500];
+const RADIO_LOW_HZ = 300;
+const RADIO_HIGH_HZ = 3000;
+const RADIO_STATIC_LEVEL = 0.015;
+
+export interface VoiceEffectChain {
+  input: AudioNode;
+  output: AudioNode;
+  // Stops the chain's oscillators and noise and disconnects all of its nodes
+  dispose: () => void;
+}
+
+// Nodes of one chain, kept so that dispose() can tear all of them down
+interface ChainParts {
+  nodes: AudioNode[];
+  sources: AudioScheduledSourceNode[];
+}
+
+function track<T extends AudioNode>(parts: ChainParts, node: T): T {
+  parts.nodes.push(node);
+  if (node instanceof AudioScheduledSourceNode) parts.sources.push(node);
+  return node;
+}
+
+// One second of samples from `shape(x)`, x in [0, 1), looped at `rate` Hz
+function createLoop(ctx: BaseAudioContext, parts: ChainParts, rate: number, shape: (x: number) => number) {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = shape(i / data.length);
+  const source = track(parts, ctx.createBufferSource());
+  source.buffer = buffer;
+  source.loop = true;
+  source.playbackRate.value = rate;
+  return source;
+}
+
+// Delay-line pitch shifter: two taps sweep their delay at the rate that
+// stretches or squeezes the waveform, each fading out while it jumps back,
+// half a cycle apart from the other
+function createPitchShift(ctx: BaseAudioContext, parts: ChainParts, ratio: number): [AudioNode, AudioNode] {
+  const input = track(parts, ctx.createGain());
+  const output = track(parts, ctx.createGain());
+  const rate = Math.abs(1 - ratio) / PITCH_WINDOW_S;
+  // Pitching down needs a growing delay, pitching up a shrinking one
+  const ramp = ratio < 1 ? (x: number) => x : (x: number) => 1 - x;
+  const startAt = ctx.currentTime;
+
+  [0, 0.5].forEach((offset) => {
+    const delay = track(parts, ctx.createDelay(PITCH_WINDOW_S * 2));
+    const depth = track(parts, ctx.createGain());
+    depth.gain.value = PITCH_WINDOW_S;
+    const sweep = createLoop(ctx, parts, rate, ramp);
+    sweep.connect(depth).connect(delay.delayTime);
+
+    const fade = track(parts, ctx.createGain());
+    fade.gain.value = 0;
+    const envelope = createLoop(ctx, parts, rate, x => Math.sin(Math.PI * x));
+    envelope.connect(fade.gain);
+
+    input.connect(delay).connect(fade).connect(output);
+    sweep.start(startAt, offset);
+    envelope.start(startAt, offset);
+  });
+
+  return [input, output];
+}
+
+// Band-pass bank on the shifted formants, blended with a little of the dry voice
+function createFormantShift(ctx: BaseAudioContext, parts: ChainParts, factor: number): [AudioNode, AudioNode] {
+  const input = track(parts, ctx.createGain());
+  const output = track(parts, ctx.createGain());
+  const dry = track(parts, ctx.createGain());
+  dry.gain.value = 0.3;
+  input.connect(dry).connect(output);
+
+  FORMANT_BANDS_HZ.forEach((hz) => {
+    const band = track(parts, ctx.createBiquadFilter());
+    band.type = 'bandpass';
+    band.frequency.value = hz * factor;
+    band.Q.value = 4;
+    const gain = track(parts, ctx.createGain());
+    gain.gain.value = 1.5;
+    input.connect(band).connect(gain).connect(output);
+  });
+
+  return [input, output];
+}
+
+// Multiplies the voice by a sine carrier (the classic sci-fi robot)
+function createRingModulator(ctx: BaseAudioContext, parts: ChainParts, hz: number, mix: number): [AudioNode, AudioNode] {
+  const input = track(parts, ctx.createGain());
+  const output = track(parts, ctx.createGain());
+
+  const modulated = track(parts, ctx.createGain());
+  modulated.gain.value = 0;
+  const carrier = track(parts, ctx.createOscillator());
+  carrier.frequency.value = hz;
+  carrier.connect(modulated.gain);
+  carrier.start();
+
+  const wet = track(parts, ctx.createGain());
+  wet.gain.value = mix;
+  const dry = track(parts, ctx.createGain());
+  dry.gain.value = 1 - mix;
+  input.connect(modulated).connect(wet).connect(output);
+  input.connect(dry).connect(output);
+
+  return [input, output];
+}
+
+// Narrow band, soft clipping and a bed of filtered static
+function createRadio(ctx: BaseAudioContext, parts: ChainParts): [AudioNode, AudioNode] {
+  const highpass = track(parts, ctx.createBiquadFilter());
+  highpass.type = 'highpass';
+  highpass.frequency.value = RADIO_LOW_HZ;
+  const lowpass = track(parts, ctx.createBiquadFilter());
+  lowpass.type = 'lowpass';
+  lowpass.frequency.value = RADIO_HIGH_HZ;
+
+  const drive = track(parts, ctx.createWaveShaper());
+  const curve = new Float32Array(1024);
+  for (let i = 0; i < curve.length; i++) curve[i] = Math.tanh(3 * (i / (curve.length - 1) * 2 - 1));
+  drive.curve = curve;
+
+  const output = track(parts, ctx.createGain());
+  highpass.connect(lowpass).connect(drive).connect(output);
+
+  const noise = createLoop(ctx, parts, 1, () => Math.random() * 2 - 1);
+  const noiseBand = track(parts, ctx.createBiquadFilter());
+  noiseBand.type = 'bandpass';
+  noiseBand.frequency.value = (RADIO_LOW_HZ + RADIO_HIGH_HZ) / 2;
+  const noiseLevel = track(parts, ctx.createGain());
+  noiseLevel.gain.value = RADIO_STATIC_LEVEL;
+  noise.connect(noiseBand).connect(noiseLevel).connect(output);
+  noise.start();
+
+  return [highpass, output];
+}
+
+// Builds the chain of a preset: pitch, formants, ring modulator, then radio
+export function createVoiceEffectChain(ctx: BaseAudioContext, effect: VoiceEffect): VoiceEffectChain {
+  const settings = VOICE_EFFECT_PRESETS[effect];
+  const parts: ChainParts = { nodes: [], sources: [] };
+  const stages: [AudioNode, AudioNode][] = [];
+
+  if (settings.pitch && settings.pitch !== 1) stages.push(createPitchShift(ctx, parts, settings.pitch));
+  if (settings.formant && settings.formant !== 1) stages.push(createFormantShift(ctx, parts, settings.formant));
+  if (settings.ringHz) stages.push(createRingModulator(ctx, parts, settings.ringHz, settings.ringMix ?? 1));
+  if (settings.radio) stages.push(createRadio(ctx, parts));
+
+  const input = track(parts, ctx.createGain());
+  const output = stages.reduce<AudioNode>((previous, [stageInput, stageOutput]) => {
+    previous.connect(stageInput);
+    return stageOutput;
+  }, input);
+
+  return {
+    input,
+    output,
+    dispose: () => {
+      parts.sources.forEach(source => {
+        try {
+          source.stop();
+        } catch (e) {
+          // Never started
+        }
+      });
+      parts.nodes.forEach(node => node.disconnect());
+    },
+  };
+}
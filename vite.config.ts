@@ -1,18 +1,67 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createLiveToken, createStubToken, createTokenGuard } from './server/liveTokens.js';
+
+// Dev-only token endpoint so `npm run dev` works without the separate token server.
+// Mints real tokens when GEMINI_API_KEY is set, otherwise (or with LIVE_TOKEN_STUB=1)
+// hands out offline stub tokens. The key stays in the dev server process, and
+// only the app served by this dev server gets tokens (see createTokenGuard).
+function liveTokenDevEndpoint(apiKey: string, useStub: boolean): Plugin {
+  return {
+    name: 'live-token-dev-endpoint',
+    apply: 'serve',
+    configureServer(server) {
+      const checkTokenRequest = createTokenGuard();
+      server.middlewares.use('/api/live-token', async (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+        const refusal = checkTokenRequest(req);
+        if (refusal) {
+          res.statusCode = refusal.status;
+          if (refusal.cookie) res.setHeader('Set-Cookie', refusal.cookie);
+          res.end();
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Cache-Control', 'no-store');
+        try {
+          const body = useStub || !apiKey ? createStubToken() : await createLiveToken(apiKey);
+          res.end(JSON.stringify(body));
+        } catch (e) {
+          console.error('Failed to create Live token:', e);
+          res.statusCode = 502;
+          res.end(JSON.stringify({ error: 'Failed to create token' }));
+        }
+      });
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Set DEV_HOST=0.0.0.0 to open the dev server to the LAN (e.g. P2P tests)
+        host: env.DEV_HOST || 'localhost',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        liveTokenDevEndpoint(env.GEMINI_API_KEY || '', env.LIVE_TOKEN_STUB === '1'),
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.LIVE_TOKEN_URL': JSON.stringify(env.LIVE_TOKEN_URL || '/api/live-token'),
+        'process.env.PEER_HOST': JSON.stringify(env.PEER_HOST || ''),
+        'process.env.PEER_PORT': JSON.stringify(env.PEER_PORT || ''),
+        'process.env.PEER_PATH': JSON.stringify(env.PEER_PATH || ''),
+        'process.env.PEER_KEY': JSON.stringify(env.PEER_KEY || ''),
+        'process.env.PEER_SECURE': JSON.stringify(env.PEER_SECURE || ''),
+        'process.env.PEER_RING_TIMEOUT_MS': JSON.stringify(env.PEER_RING_TIMEOUT_MS || ''),
+        'process.env.PEER_ICE_SERVERS': JSON.stringify(env.PEER_ICE_SERVERS || '')
       },
       resolve: {
         alias: {